@@ -0,0 +1,24 @@
+// ABOUTME: Block sequencing for streamed assistant messages: only the last block takes more content.
+// ABOUTME: Text that resumes after a tool call or thinking block opens a new text block, keeping the model's order.
+
+import type { AssistantMessage, TextContent } from "@earendil-works/pi-ai";
+
+/**
+ * Whether block `index` can take more streamed content. Once another block
+ * follows it, the model has moved on, and further content needs a new block.
+ */
+export function isOpenBlock(output: AssistantMessage, index: number | null): index is number {
+  return index !== null && index === output.content.length - 1;
+}
+
+/** The message's text blocks, in order. */
+export function textBlocks(output: AssistantMessage): TextContent[] {
+  return output.content.filter((block): block is TextContent => block.type === "text");
+}
+
+/** All visible text in the message, across its text blocks. */
+export function messageText(output: AssistantMessage): string {
+  return textBlocks(output)
+    .map((block) => block.text)
+    .join("");
+}
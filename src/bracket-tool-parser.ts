@@ -41,11 +41,18 @@ export interface BracketParseResult {
   cleanedText: string;
 }
 
+/** A bracket call's name, arguments, and span [start, end) in the text. */
+export interface BracketToolCallMatch {
+  name: string;
+  arguments: Record<string, unknown>;
+  start: number;
+  end: number;
+}
+
 const BRACKET_PATTERN = /\[Called\s+([\w-]+)\s+with\s+args:\s*/g;
 
-export function parseBracketToolCalls(text: string): BracketParseResult {
-  const toolCalls: BracketToolCall[] = [];
-  const removals: Array<{ start: number; end: number }> = [];
+export function findBracketToolCalls(text: string): BracketToolCallMatch[] {
+  const matches: BracketToolCallMatch[] = [];
 
   // Reset the regex lastIndex to ensure consistent behavior
   BRACKET_PATTERN.lastIndex = 0;
@@ -65,12 +72,7 @@ export function parseBracketToolCalls(text: string): BracketParseResult {
             const jsonStr = text.substring(braceIdx, jsonEndIdx + 1);
             try {
               const args = JSON.parse(jsonStr);
-              toolCalls.push({
-                toolUseId: crypto.randomUUID(),
-                name,
-                arguments: args,
-              });
-              removals.push({ start: match.index, end: afterJson + 1 });
+              matches.push({ name, arguments: args, start: match.index, end: afterJson + 1 });
             } catch {
               // Malformed JSON — skip this match
             }
@@ -80,11 +82,21 @@ export function parseBracketToolCalls(text: string): BracketParseResult {
     }
     match = BRACKET_PATTERN.exec(text);
   }
+  return matches;
+}
+
+export function parseBracketToolCalls(text: string): BracketParseResult {
+  const matches = findBracketToolCalls(text);
+  const toolCalls: BracketToolCall[] = matches.map(({ name, arguments: args }) => ({
+    toolUseId: crypto.randomUUID(),
+    name,
+    arguments: args,
+  }));
 
   // Build cleaned text by removing matched bracket patterns (reverse order to preserve indices)
   let cleanedText = text;
-  for (let i = removals.length - 1; i >= 0; i--) {
-    const { start, end } = removals[i];
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const { start, end } = matches[i];
     cleanedText = cleanedText.substring(0, start) + cleanedText.substring(end);
   }
 
@@ -0,0 +1,131 @@
+// ABOUTME: Capacity bookkeeping: the capacity-retries.log and a file-backed circuit breaker per model and region.
+// ABOUTME: Every pi process shares the breaker file, so parallel sessions stop hammering a saturated model.
+
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { debugLog } from "./debug.js";
+import { capacityBreakerConfig } from "./retry.js";
+
+export type CapacityCircuit = "closed" | "open" | "half-open";
+
+interface CircuitEntry {
+  /** Consecutive capacity errors, across every process. */
+  failures: number;
+  openedAt?: number;
+  /** Set while a half-open probe request is in flight. */
+  probeAt?: number;
+}
+
+type CircuitState = Record<string, CircuitEntry>;
+
+// Used when the state file cannot be read or written; keeps the breaker process-wide at least.
+let memoryState: CircuitState = {};
+let capacityLogDirCreated = false;
+
+function capacityLogFile(): string {
+  return join(homedir(), ".pi", "logs", "capacity-retries.log");
+}
+
+function circuitFile(): string {
+  return join(homedir(), ".pi", "kiro-capacity-circuit.json");
+}
+
+export function logCapacityEvent(message: string): void {
+  // Fire-and-forget async logging to avoid blocking the event loop
+  (async () => {
+    try {
+      const file = capacityLogFile();
+      if (!capacityLogDirCreated) {
+        await mkdir(dirname(file), { recursive: true });
+        capacityLogDirCreated = true;
+      }
+      await appendFile(file, `${new Date().toISOString()} ${message}\n`);
+    } catch {
+      // best-effort logging, don't break the provider
+    }
+  })();
+}
+
+function readState(): CircuitState {
+  try {
+    memoryState = JSON.parse(readFileSync(circuitFile(), "utf-8")) as CircuitState;
+  } catch {
+    // missing or unreadable: fall back to what this process has seen
+  }
+  return memoryState;
+}
+
+function writeState(state: CircuitState): void {
+  memoryState = state;
+  const file = circuitFile();
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    // Write then rename so concurrent readers never see a half-written file
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(state));
+    renameSync(tmp, file);
+  } catch (error) {
+    debugLog("capacity.circuit.writeError", { error: String(error) });
+  }
+}
+
+export function capacityCircuitKey(region: string, kiroModelId: string): string {
+  return `${region}/${kiroModelId}`;
+}
+
+/**
+ * Ask the breaker whether a request may go out. After the cooldown one caller
+ * gets "half-open" and sends a single probe; everyone else keeps seeing "open"
+ * until the probe reports back or another cooldown passes.
+ */
+export function acquireCapacityCircuit(key: string): CapacityCircuit {
+  const state = readState();
+  const entry = state[key];
+  if (entry?.openedAt === undefined) return "closed";
+  const now = Date.now();
+  if (now - entry.openedAt < capacityBreakerConfig.cooldownMs) return "open";
+  if (entry.probeAt !== undefined && now - entry.probeAt < capacityBreakerConfig.cooldownMs) return "open";
+  entry.probeAt = now;
+  writeState(state);
+  logCapacityEvent(`INSUFFICIENT_MODEL_CAPACITY — circuit half-open for ${key}, probing`);
+  return "half-open";
+}
+
+/** True while the breaker is open and not yet due for a probe. */
+export function isCapacityCircuitOpen(key: string): boolean {
+  const openedAt = readState()[key]?.openedAt;
+  return openedAt !== undefined && Date.now() - openedAt < capacityBreakerConfig.cooldownMs;
+}
+
+export function recordCapacityFailure(key: string): void {
+  const state = readState();
+  const entry = state[key] ?? { failures: 0 };
+  entry.failures++;
+  const probeFailed = entry.probeAt !== undefined;
+  if (probeFailed || (entry.openedAt === undefined && entry.failures >= capacityBreakerConfig.failureThreshold)) {
+    entry.openedAt = Date.now();
+    delete entry.probeAt;
+    logCapacityEvent(
+      `INSUFFICIENT_MODEL_CAPACITY — circuit open for ${key} after ${entry.failures} consecutive errors, cooling down ${capacityBreakerConfig.cooldownMs}ms`,
+    );
+  }
+  state[key] = entry;
+  writeState(state);
+}
+
+export function recordCapacitySuccess(key: string): void {
+  const state = readState();
+  const entry = state[key];
+  if (!entry) return;
+  delete state[key];
+  writeState(state);
+  if (entry.openedAt !== undefined) logCapacityEvent(`INSUFFICIENT_MODEL_CAPACITY — circuit closed for ${key}`);
+}
+
+/** Forget all breaker state (tests). */
+export function resetCapacityCircuits(): void {
+  memoryState = {};
+  rmSync(circuitFile(), { force: true });
+}
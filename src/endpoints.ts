@@ -18,6 +18,11 @@ const API_REGION_MAP: Record<string, string> = {
   "eu-central-2": "eu-central-1",
 };
 
+// User settings can add or replace SSO-to-API region mappings
+export const regionConfig: { overrides: Record<string, string> } = {
+  overrides: {},
+};
+
 export interface KiroEndpoints {
   region: string;
   management: string;
@@ -26,10 +31,19 @@ export interface KiroEndpoints {
 
 export function resolveApiRegion(ssoRegion: string | undefined): string {
   if (!ssoRegion) return "us-east-1";
-  return API_REGION_MAP[ssoRegion] ?? ssoRegion;
+  return regionConfig.overrides[ssoRegion] ?? API_REGION_MAP[ssoRegion] ?? ssoRegion;
+}
+
+/** Route both hosts to a local stand-in (e.g. the test simulator) when KIRO_ENDPOINT_OVERRIDE is set. */
+function getEndpointOverride(): string | undefined {
+  const override = process.env.KIRO_ENDPOINT_OVERRIDE;
+  if (!override) return undefined;
+  return override.endsWith("/") ? override : `${override}/`;
 }
 
 export function getKiroEndpoints(region: string): KiroEndpoints {
+  const override = getEndpointOverride();
+  if (override) return { region, management: override, runtime: override };
   return {
     region,
     management: `https://management.${region}.kiro.dev/`,
@@ -0,0 +1,84 @@
+// ABOUTME: Typed Kiro provider errors with stable machine-readable codes.
+// ABOUTME: Messages keep the legacy "Kiro API error: ..." text so pi-ai's isContextOverflow() still matches.
+
+import { redactSensitiveText } from "./debug.js";
+import type { KiroRetryCause } from "./telemetry.js";
+
+export type KiroErrorCode =
+  | "auth-expired"
+  | "profile-missing"
+  | "quota-exhausted"
+  | "capacity"
+  | "context-too-large"
+  | "first-token-timeout"
+  | "idle-timeout"
+  | "stream-error"
+  | "malformed-tool-input"
+  | "image-unsupported"
+  | "http-error";
+
+const REMEDIATION: Record<KiroErrorCode, string> = {
+  "auth-expired": "Run /login kiro, or sign in again with kiro-cli.",
+  "profile-missing": "Open Kiro once to create a profile, or set a profile ARN through kiro-cli.",
+  "quota-exhausted": "The monthly request quota is used up; wait for the reset or upgrade the Kiro plan.",
+  capacity: "The model is overloaded; try again shortly or switch to another model.",
+  "context-too-large": "Compact the conversation or start a new session.",
+  "first-token-timeout": "Kiro did not start responding; try again or switch to another model.",
+  "idle-timeout": "The response stalled mid-stream; try again.",
+  "stream-error": "Kiro reported an error mid-response; try again.",
+  "malformed-tool-input": "The model sent tool arguments that are not valid JSON; the tool call was dropped.",
+  "image-unsupported": "Switch to a model that accepts images, or set imageCaptionModel to have images described.",
+  "http-error": "Check KIRO_DEBUG=1 logs for the full response.",
+};
+
+/** Serializable form of a KiroError, attached to assistant messages as `kiroError`. */
+export interface KiroErrorInfo {
+  code: KiroErrorCode;
+  message: string;
+  status?: number;
+  /** AWS request id from the `x-amzn-requestid` response header. */
+  requestId?: string;
+  /** Provider-local retries taken before giving up, in order. */
+  retries: KiroRetryCause[];
+  remediation: string;
+}
+
+export interface KiroErrorDetails {
+  status?: number;
+  requestId?: string;
+  retries?: KiroRetryCause[];
+  cause?: unknown;
+}
+
+export class KiroError extends Error {
+  readonly code: KiroErrorCode;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly retries: KiroRetryCause[];
+  readonly remediation: string;
+
+  constructor(code: KiroErrorCode, message: string, details: KiroErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.name = "KiroError";
+    this.code = code;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.retries = details.retries ?? [];
+    this.remediation = REMEDIATION[code];
+  }
+
+  toJSON(): KiroErrorInfo {
+    return {
+      code: this.code,
+      message: redactSensitiveText(this.message),
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.requestId ? { requestId: this.requestId } : {}),
+      retries: [...this.retries],
+      remediation: this.remediation,
+    };
+  }
+}
+
+export function isKiroError(error: unknown): error is KiroError {
+  return error instanceof KiroError;
+}
@@ -1,22 +1,40 @@
 // ABOUTME: Kiro stream event type definitions and JSON-to-typed-event mapping.
 // ABOUTME: Binary framing is handled by @smithy/core EventStreamMarshaller in stream.ts.
 
+/** A suggested next prompt, as shown by the Kiro IDE after a response. */
+export interface KiroFollowupPrompt {
+  content: string;
+  userIntent?: string;
+}
+
 export type KiroStreamEvent =
   | { type: "content"; data: string }
   | { type: "thinkingText"; data: string }
   | { type: "thinkingSignature"; data: string }
+  | { type: "thinkingRedacted"; data: string }
   | { type: "toolUse"; data: { name: string; toolUseId: string; input: string; stop?: boolean } }
   | { type: "toolUseInput"; data: { input: string } }
   | { type: "toolUseStop"; data: { stop: boolean } }
   | { type: "contextUsage"; data: { contextUsagePercentage: number } }
-  | { type: "followupPrompt"; data: string }
+  | { type: "followupPrompt"; data: KiroFollowupPrompt }
   | { type: "usage"; data: { inputTokens?: number; outputTokens?: number } }
   | { type: "error"; data: { error: string; message?: string } };
 
+// Kiro sends { content, userIntent }; older captures carry a bare string.
+function toFollowupPrompt(value: unknown): KiroFollowupPrompt {
+  if (typeof value === "string") return { content: value };
+  const prompt = (value ?? {}) as Record<string, unknown>;
+  return {
+    content: typeof prompt.content === "string" ? prompt.content : "",
+    ...(typeof prompt.userIntent === "string" ? { userIntent: prompt.userIntent } : {}),
+  };
+}
+
 export function parseKiroEvent(parsed: Record<string, unknown>): KiroStreamEvent | null {
   if (parsed.content !== undefined) return { type: "content", data: parsed.content as string };
   if (typeof parsed.text === "string") return { type: "thinkingText", data: parsed.text };
   if (typeof parsed.signature === "string") return { type: "thinkingSignature", data: parsed.signature };
+  if (typeof parsed.redactedContent === "string") return { type: "thinkingRedacted", data: parsed.redactedContent };
   if (parsed.name && parsed.toolUseId) {
     const input =
       typeof parsed.input === "string"
@@ -46,7 +64,8 @@ export function parseKiroEvent(parsed: Record<string, unknown>): KiroStreamEvent
     return { type: "toolUseStop", data: { stop: parsed.stop as boolean } };
   if (parsed.contextUsagePercentage !== undefined)
     return { type: "contextUsage", data: { contextUsagePercentage: parsed.contextUsagePercentage as number } };
-  if (parsed.followupPrompt !== undefined) return { type: "followupPrompt", data: parsed.followupPrompt as string };
+  if (parsed.followupPrompt !== undefined)
+    return { type: "followupPrompt", data: toFollowupPrompt(parsed.followupPrompt) };
   if (parsed.error !== undefined || parsed.Error !== undefined) {
     const error = (parsed.error || parsed.Error || "unknown") as string;
     const message = (parsed.message || parsed.Message || parsed.reason) as string | undefined;
@@ -0,0 +1,100 @@
+// ABOUTME: Model fallback chains followed when Kiro capacity stays exhausted after retries.
+// ABOUTME: A fallback must fit the conversation in its context window and accept any images in it.
+
+import type { Api, Context, Model } from "@earendil-works/pi-ai";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { getKiroRegionFromEndpoint } from "./endpoints.js";
+import { CHARS_PER_TOKEN } from "./history.js";
+import { getCachedModels, type KiroModel, kiroModels } from "./models.js";
+import type { KiroModelMetadata } from "./request.js";
+import type { KiroAssistantMessage } from "./stream.js";
+import { getContentText } from "./transform.js";
+
+// Chains from user settings; KIRO_MODEL_FALLBACKS takes precedence when set
+export const fallbackConfig: { chains: string[][] } = {
+  chains: [],
+};
+
+/**
+ * Parse KIRO_MODEL_FALLBACKS: chains separated by ";", models within a chain by ",".
+ * "claude-opus-4-8,claude-opus-4-7,claude-sonnet-5" lets each model fall back to the ones after it.
+ */
+export function parseFallbackChains(value: string | undefined): string[][] {
+  if (!value) return [];
+  return value
+    .split(";")
+    .map((chain) =>
+      chain
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    )
+    .filter((chain) => chain.length > 1);
+}
+
+function estimateContextTokens(context: Context): number {
+  let chars = context.systemPrompt?.length ?? 0;
+  for (const msg of context.messages) {
+    chars += getContentText(msg).length;
+    if (msg.role === "assistant") {
+      for (const block of msg.content) if (block.type === "toolCall") chars += JSON.stringify(block.arguments).length;
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function contextHasImages(context: Context): boolean {
+  return context.messages.some(
+    (msg) => msg.role !== "assistant" && Array.isArray(msg.content) && msg.content.some((c) => c.type === "image"),
+  );
+}
+
+/** `candidate` with `model`'s routing (endpoint, region, profile), for swapping only the model. */
+export function withRoutingOf(candidate: KiroModel, model: Model<Api>): Model<Api> {
+  const metadata = model as KiroModelMetadata;
+  return {
+    ...candidate,
+    baseUrl: model.baseUrl,
+    kiroRegion: metadata.kiroRegion ?? getKiroRegionFromEndpoint(model.baseUrl) ?? "us-east-1",
+    ...(metadata.kiroProfileArn ? { kiroProfileArn: metadata.kiroProfileArn } : {}),
+  } as Model<Api>;
+}
+
+/** The catalog model `id` in `model`'s region, routed like `model`; undefined when the region lacks it. */
+export function findRoutedModel(id: string, model: Model<Api>): Model<Api> | undefined {
+  const region = (model as KiroModelMetadata).kiroRegion ?? getKiroRegionFromEndpoint(model.baseUrl) ?? "us-east-1";
+  const candidate = getCachedModels(region).find((m) => m.id === id) ?? kiroModels.find((m) => m.id === id);
+  return candidate ? withRoutingOf(candidate, model) : undefined;
+}
+
+/** Models to try, in order, once `model` has exhausted its capacity retries. */
+export function getFallbackModels(model: Model<Api>, context: Context): Model<Api>[] {
+  const envChains = process.env.KIRO_MODEL_FALLBACKS;
+  const chains = envChains !== undefined ? parseFallbackChains(envChains) : fallbackConfig.chains;
+  const chain = chains.find((c) => c.includes(model.id));
+  if (!chain) return [];
+
+  const region = (model as KiroModelMetadata).kiroRegion ?? getKiroRegionFromEndpoint(model.baseUrl) ?? "us-east-1";
+  const catalog = getCachedModels(region);
+  const requiredTokens = estimateContextTokens(context);
+  const needsImages = contextHasImages(context);
+
+  const fallbacks: Model<Api>[] = [];
+  for (const id of chain.slice(chain.indexOf(model.id) + 1)) {
+    const candidate = catalog.find((m: KiroModel) => m.id === id);
+    if (!candidate) continue;
+    if (candidate.contextWindow < requiredTokens) continue;
+    if (needsImages && !candidate.input.includes("image")) continue;
+    fallbacks.push(withRoutingOf(candidate, model));
+  }
+  return fallbacks;
+}
+
+/** Tell the user when a response came from a fallback model rather than the one they selected. */
+export function registerKiroFallbackNotice(pi: ExtensionAPI): void {
+  pi.on("message_end", async (event, ctx) => {
+    const message = event.message as KiroAssistantMessage;
+    if (message.role !== "assistant" || !message.requestedModel || !ctx.hasUI) return;
+    ctx.ui.notify(`${message.requestedModel} is out of capacity; ${message.model} answered instead`, "warning");
+  });
+}
@@ -0,0 +1,62 @@
+// ABOUTME: Shows Kiro's suggested follow-up prompts in the pi session after each response.
+// ABOUTME: The suggestions live on the assistant message; /kiro-followup sends one as the next prompt.
+
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import type { KiroFollowupPrompt } from "./event-parser.js";
+import type { KiroAssistantMessage } from "./stream.js";
+
+const WIDGET_KEY = "kiro-followups";
+
+function showFollowups(ctx: ExtensionContext, prompts: KiroFollowupPrompt[]): void {
+  if (!ctx.hasUI) return;
+  if (prompts.length === 0) {
+    ctx.ui.setWidget(WIDGET_KEY, undefined);
+    return;
+  }
+  ctx.ui.setWidget(WIDGET_KEY, [
+    "Kiro suggests (/kiro-followup <n>):",
+    ...prompts.map((prompt, i) => `  ${i + 1}. ${prompt.content}`),
+  ]);
+}
+
+/** Track follow-up prompts from the latest Kiro response and offer them as one-step next prompts. */
+export function registerKiroFollowups(pi: ExtensionAPI): void {
+  let latest: KiroFollowupPrompt[] = [];
+
+  pi.on("message_start", async (event, ctx) => {
+    // Suggestions only apply to the response they came with
+    if (event.message.role !== "user" || latest.length === 0) return;
+    latest = [];
+    showFollowups(ctx, latest);
+  });
+
+  pi.on("message_end", async (event, ctx) => {
+    const message = event.message as KiroAssistantMessage;
+    if (message.role !== "assistant" || message.provider !== "kiro") return;
+    latest = message.followupPrompts ?? [];
+    showFollowups(ctx, latest);
+  });
+
+  pi.registerCommand("kiro-followup", {
+    description: "Send a follow-up prompt suggested by Kiro",
+    getArgumentCompletions: (prefix) => {
+      const items = latest
+        .map((prompt, i) => ({ value: String(i + 1), label: `${i + 1}`, description: prompt.content }))
+        .filter((item) => item.value.startsWith(prefix));
+      return items.length > 0 ? items : null;
+    },
+    handler: async (args, ctx) => {
+      if (latest.length === 0) {
+        ctx.ui.notify("No Kiro follow-up suggestions for the last response", "info");
+        return;
+      }
+      const index = args.trim() ? Number.parseInt(args.trim(), 10) : 1;
+      const prompt = latest[index - 1];
+      if (!prompt) {
+        ctx.ui.notify(`Pick a suggestion between 1 and ${latest.length}`, "warning");
+        return;
+      }
+      pi.sendUserMessage(prompt.content, ctx.isIdle() ? undefined : { deliverAs: "followUp" });
+    },
+  });
+}
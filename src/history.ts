@@ -1,19 +1,119 @@
 // Feature 6: History Management
 
-import type { KiroHistoryEntry, KiroToolSpec } from "./transform.js";
+import { createHash } from "node:crypto";
+import type { Api, Model } from "@earendil-works/pi-ai";
+import { countTokensCached } from "./tokenizer.js";
+import type { KiroHistoryEntry, KiroImage, KiroToolSpec } from "./transform.js";
 
+/** The former character budget for history, kept as the basis of the cheap size estimates. */
 export const HISTORY_LIMIT = 850000;
 /** The context window size (in tokens) that HISTORY_LIMIT was calibrated for. */
 export const HISTORY_LIMIT_CONTEXT_WINDOW = 200000;
+/** Characters of serialized request JSON per token, for estimates that skip the tokenizer. */
+export const CHARS_PER_TOKEN = HISTORY_LIMIT / HISTORY_LIMIT_CONTEXT_WINDOW;
+/** Rough per-image cost; Claude downsizes images to about 1.15 megapixels, or ~1,600 tokens. */
+export const IMAGE_TOKEN_ESTIMATE = 1600;
 
-/** Remove images from history entries — they've already been processed by the
- *  model in previous turns and re-sending them wastes context / causes 413s. */
-export function stripHistoryImages(history: KiroHistoryEntry[]): KiroHistoryEntry[] {
-  return history.map((entry) => {
-    if (!entry.userInputMessage?.images) return entry;
-    const { images, ...rest } = entry.userInputMessage;
-    return { ...entry, userInputMessage: { ...rest } };
-  });
+// Mutable so user settings can cap the history budget below what the model allows
+export const historyConfig: { maxTokens?: number } = {};
+
+// Images kept in history, newest first; images in pinned turns are always kept.
+// By default history carries no images, as the model already saw them.
+export const historyImageConfig: { maxImages: number; maxBytes?: number } = {
+  maxImages: 0,
+};
+
+// Entries that survive truncation, on top of the first user turn. Tracked
+// out of band because every field of an entry is sent to Kiro.
+const pinnedEntries = new WeakSet<KiroHistoryEntry>();
+// Marker entries left where turns were elided, with what they stand for
+const omissionMarkers = new WeakMap<KiroHistoryEntry, { turns: number; omitted: KiroHistoryEntry[] }>();
+// Rough size of one marker entry, reserved per pinned turn while budgeting
+const OMISSION_MARKER_TOKENS = 20;
+
+/** Keep this entry when older history is dropped. Only plain user turns can be pinned. */
+export function pinHistoryEntry(entry: KiroHistoryEntry): void {
+  pinnedEntries.add(entry);
+}
+
+export function isPinnedEntry(entry: KiroHistoryEntry): boolean {
+  return pinnedEntries.has(entry);
+}
+
+function omissionMarker(turns: number, omitted: KiroHistoryEntry[]): KiroHistoryEntry {
+  const marker = {
+    assistantResponseMessage: { content: `[${turns} earlier ${turns === 1 ? "turn" : "turns"} omitted]` },
+  };
+  omissionMarkers.set(marker, { turns, omitted });
+  return marker;
+}
+
+/** For a marker left by truncateHistory: the turn count and the original entries it replaced. */
+export function getOmission(entry: KiroHistoryEntry): { turns: number; omitted: KiroHistoryEntry[] } | undefined {
+  return omissionMarkers.get(entry);
+}
+
+function imageBytes(image: KiroImage): number {
+  return Math.floor((image.source.bytes.length * 3) / 4);
+}
+
+function imagePlaceholder(count: number): string {
+  return count === 1 ? "[image omitted]" : `[${count} images omitted]`;
+}
+
+/**
+ * Apply historyImageConfig: walking back from the newest turn, keep images
+ * while the count and byte budgets allow, plus every image in a pinned turn.
+ * Repeats of an image kept later on are dropped. Each entry that loses images
+ * says so in its text, so the model knows an image was there.
+ */
+export function retainHistoryImages(history: KiroHistoryEntry[]): KiroHistoryEntry[] {
+  const { maxImages, maxBytes = Number.POSITIVE_INFINITY } = historyImageConfig;
+  const seen = new Set<string>();
+  let keptImages = 0;
+  let keptBytes = 0;
+  const result = new Array<KiroHistoryEntry>(history.length);
+  for (let i = history.length - 1; i >= 0; i--) {
+    const entry = history[i];
+    const images = entry.userInputMessage?.images;
+    if (!entry.userInputMessage || !images) {
+      result[i] = entry;
+      continue;
+    }
+    const pinned = pinnedEntries.has(entry);
+    const kept: KiroImage[] = [];
+    for (let j = images.length - 1; j >= 0; j--) {
+      const image = images[j];
+      const hash = createHash("sha1").update(image.source.bytes).digest("base64");
+      if (seen.has(hash)) continue;
+      const bytes = imageBytes(image);
+      if (!pinned && (keptImages >= maxImages || keptBytes + bytes > maxBytes)) continue;
+      seen.add(hash);
+      kept.unshift(image);
+      if (!pinned) {
+        keptImages++;
+        keptBytes += bytes;
+      }
+    }
+    if (kept.length > 0 && kept.length === images.length) {
+      result[i] = entry;
+      continue;
+    }
+    const { images: _images, ...rest } = entry.userInputMessage;
+    const dropped = images.length - kept.length;
+    const placeholder = imagePlaceholder(dropped);
+    const retained = {
+      ...entry,
+      userInputMessage: {
+        ...rest,
+        ...(dropped > 0 ? { content: rest.content ? `${rest.content}\n\n${placeholder}` : placeholder } : {}),
+        ...(kept.length > 0 ? { images: kept } : {}),
+      },
+    };
+    if (pinned) pinnedEntries.add(retained);
+    result[i] = retained;
+  }
+  return result;
 }
 
 export function sanitizeHistory(history: KiroHistoryEntry[]): KiroHistoryEntry[] {
@@ -71,16 +171,89 @@ export function injectSyntheticToolCalls(history: KiroHistoryEntry[]): KiroHisto
   return result;
 }
 
-export function truncateHistory(history: KiroHistoryEntry[], limit: number): KiroHistoryEntry[] {
-  let sanitized = sanitizeHistory(stripHistoryImages(history));
-  let historySize = JSON.stringify(sanitized).length;
-  while (historySize > limit && sanitized.length > 2) {
-    sanitized.shift();
-    while (sanitized.length > 0 && !sanitized[0]?.userInputMessage) sanitized.shift();
-    sanitized = sanitizeHistory(sanitized);
-    historySize = JSON.stringify(sanitized).length;
+/** Tokens in a history entry as serialized into the request, with IMAGE_TOKEN_ESTIMATE per image. */
+export function countEntryTokens(entry: KiroHistoryEntry): number {
+  const images = entry.userInputMessage?.images;
+  if (!entry.userInputMessage || !images) return countTokensCached(JSON.stringify(entry));
+  const { images: _images, ...rest } = entry.userInputMessage;
+  return countTokensCached(JSON.stringify({ ...entry, userInputMessage: rest })) + images.length * IMAGE_TOKEN_ESTIMATE;
+}
+
+export function countHistoryTokens(history: KiroHistoryEntry[]): number {
+  return history.reduce((sum, entry) => sum + countEntryTokens(entry), 0);
+}
+
+/**
+ * Tokens history may use: the context window minus the model's output
+ * allowance and `reservedTokens` (the tool catalog), capped by user settings.
+ */
+export function historyTokenBudget(model: Model<Api>, reservedTokens: number): number {
+  const available = model.contextWindow - model.maxTokens - reservedTokens;
+  return Math.max(0, Math.min(available, historyConfig.maxTokens ?? available));
+}
+
+/** A plain user turn: the only kind of entry history may start with. */
+function isTurnStart(entry: KiroHistoryEntry): boolean {
+  return !!entry.userInputMessage && !entry.userInputMessage.userInputMessageContext?.toolResults;
+}
+
+/** The first turn holds the task statement (and the system prompt), so it is always pinned. */
+function isKeptTurn(history: KiroHistoryEntry[], index: number): boolean {
+  return isTurnStart(history[index]) && (index === 0 || pinnedEntries.has(history[index]));
+}
+
+/**
+ * Drop the oldest turns until history fits `maxTokens` or no more than two
+ * entries are left. The first user turn and pinned user turns stay; each run
+ * of dropped entries becomes one "[N earlier turns omitted]" marker, where a
+ * kept turn's dropped reply counts as one of the N. Sanitized
+ * history cut at a plain user turn is still sanitized, so the cut point is
+ * found in one pass over suffix token sums.
+ */
+export function truncateHistory(history: KiroHistoryEntry[], maxTokens: number): KiroHistoryEntry[] {
+  const sanitized = sanitizeHistory(retainHistoryImages(history));
+  const suffixTokens = new Array<number>(sanitized.length + 1).fill(0);
+  for (let i = sanitized.length - 1; i >= 0; i--) {
+    suffixTokens[i] = suffixTokens[i + 1] + countEntryTokens(sanitized[i]);
+  }
+  let start = 0;
+  let keptTokens = 0;
+  while (suffixTokens[start] + keptTokens > maxTokens && sanitized.length - start > 2) {
+    if (isKeptTurn(sanitized, start)) {
+      keptTokens += suffixTokens[start] - suffixTokens[start + 1] + OMISSION_MARKER_TOKENS;
+    }
+    start++;
+    while (start < sanitized.length && !isTurnStart(sanitized[start])) start++;
+  }
+  if (start === 0) return injectSyntheticToolCalls(sanitized);
+
+  const kept: KiroHistoryEntry[] = [];
+  let turns = 0;
+  let omitted: KiroHistoryEntry[] = [];
+  const flush = () => {
+    // Even a lone dropped reply leaves a marker, so user entries never meet
+    if (omitted.length > 0) kept.push(omissionMarker(turns, omitted));
+    turns = 0;
+    omitted = [];
+  };
+  for (let i = 0; i < start; i++) {
+    const entry = sanitized[i];
+    const earlier = omissionMarkers.get(entry);
+    if (isKeptTurn(sanitized, i)) {
+      flush();
+      kept.push(entry);
+    } else if (earlier) {
+      // Dropping an earlier marker folds what it stood for into the new one
+      turns += earlier.turns;
+      omitted.push(...earlier.omitted);
+    } else {
+      // A run starts with a whole turn or with the rest of a kept one
+      if (isTurnStart(entry) || omitted.length === 0) turns++;
+      omitted.push(entry);
+    }
   }
-  return injectSyntheticToolCalls(sanitized);
+  flush();
+  return injectSyntheticToolCalls([...kept, ...sanitized.slice(start)]);
 }
 
 export function extractToolNamesFromHistory(history: KiroHistoryEntry[]): Set<string> {
@@ -0,0 +1,325 @@
+// ABOUTME: Image preprocessing before upload: checks the real format and size, converts, and downscales.
+// ABOUTME: Headers are read in pure JS; decoding uses pi's bundled Photon (WASM) codecs, in-process.
+
+import { createHash } from "node:crypto";
+import type { Api, Context, ImageContent, Message, Model, TextContent } from "@earendil-works/pi-ai";
+import { convertToPng, type ExtensionAPI, resizeImage } from "@earendil-works/pi-coding-agent";
+import { debugLog, formatSafeError } from "./debug.js";
+import { KiroError } from "./errors.js";
+import { findRoutedModel } from "./fallback.js";
+import type { KiroAssistantMessage } from "./stream.js";
+
+/** Formats Kiro accepts; anything else is converted to PNG. */
+export const KIRO_IMAGE_FORMATS = ["png", "jpeg", "gif", "webp"] as const;
+export type KiroImageFormat = (typeof KIRO_IMAGE_FORMATS)[number];
+
+/** Claude downsizes anything with a longer edge past this, so larger images only cost bytes. */
+export const IMAGE_MAX_DIMENSION = 1568;
+/** Base64 payload per image; keeps several screenshots well under the request body limit. */
+export const IMAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+// Mutable so user settings can change the limits. With captionModel set,
+// images sent to text-only models are described by that model instead.
+export const imageConfig: { maxDimension: number; maxBytes: number; captionModel?: string } = {
+  maxDimension: IMAGE_MAX_DIMENSION,
+  maxBytes: IMAGE_MAX_BYTES,
+};
+
+/** Stands in for an image that could not be decoded or shrunk to fit. */
+export const UNUSABLE_IMAGE_NOTE = "[image omitted: could not be prepared for upload]";
+
+const PREPARED_CACHE_SIZE = 32;
+// Every request re-sends the conversation, so each image is processed once per session
+const preparedImages = new Map<string, ImageContent | null>();
+// Captions by image hash; an empty caption records a failed attempt
+const imageCaptions = new Map<string, string>();
+
+const CAPTION_PROMPT = [
+  "Describe this image for a coding assistant that cannot see it.",
+  "Transcribe any text, code, or error messages exactly, and note layout and notable visual details.",
+  "Reply with the description only, in at most 150 words.",
+].join(" ");
+
+/** Sends a captioning context to the caption model and returns its reply text. */
+export type ImageCaptionCompletion = (model: Model<Api>, context: Context) => Promise<string>;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** The format from the file signature; the declared MIME type is not trusted. */
+export function sniffImageFormat(bytes: Buffer): KiroImageFormat | undefined {
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) return "png";
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes.length >= 6 && /^GIF8[79]a$/.test(bytes.toString("latin1", 0, 6))) return "gif";
+  if (bytes.length >= 12 && bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WEBP") {
+    return "webp";
+  }
+  return undefined;
+}
+
+function readJpegSize(bytes: Buffer): ImageSize | undefined {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    // Start-of-frame markers hold the dimensions; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function readWebpSize(bytes: Buffer): ImageSize | undefined {
+  if (bytes.length < 30) return undefined;
+  const chunk = bytes.toString("latin1", 12, 16);
+  if (chunk === "VP8 ") {
+    return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const bits = bytes.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X") return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+  return undefined;
+}
+
+/** Pixel dimensions from the image header, without decoding it. */
+export function readImageSize(bytes: Buffer, format: KiroImageFormat): ImageSize | undefined {
+  switch (format) {
+    case "png":
+      return bytes.length >= 24 ? { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) } : undefined;
+    case "gif":
+      return bytes.length >= 10 ? { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) } : undefined;
+    case "jpeg":
+      return readJpegSize(bytes);
+    case "webp":
+      return readWebpSize(bytes);
+  }
+}
+
+function fitsLimits(size: ImageSize | undefined, base64Length: number): boolean {
+  return (
+    !!size &&
+    size.width > 0 &&
+    size.height > 0 &&
+    size.width <= imageConfig.maxDimension &&
+    size.height <= imageConfig.maxDimension &&
+    base64Length <= imageConfig.maxBytes
+  );
+}
+
+function imageKey(image: ImageContent): string {
+  return createHash("sha1").update(image.data).digest("base64");
+}
+
+async function prepareUncached(image: ImageContent): Promise<ImageContent | null> {
+  let data = image.data;
+  let bytes = Buffer.from(data, "base64");
+  let format = sniffImageFormat(bytes);
+  const declared = image.mimeType;
+
+  if (!format) {
+    // Photon decodes more than Kiro accepts (BMP, TIFF, ICO, ...)
+    const converted = await convertToPng(data, "application/octet-stream");
+    if (!converted) {
+      debugLog("image.unsupported", { declared, bytes: bytes.length });
+      return null;
+    }
+    data = converted.data;
+    bytes = Buffer.from(data, "base64");
+    format = "png";
+    debugLog("image.converted", { declared, to: "image/png", bytes: bytes.length });
+  }
+
+  const size = readImageSize(bytes, format);
+  if (fitsLimits(size, data.length)) {
+    if (data === image.data && declared === `image/${format}`) return image;
+    if (declared !== `image/${format}`) debugLog("image.mimeType", { declared, actual: `image/${format}` });
+    return { ...image, data, mimeType: `image/${format}` };
+  }
+
+  const resized = await resizeImage(bytes, `image/${format}`, {
+    maxWidth: imageConfig.maxDimension,
+    maxHeight: imageConfig.maxDimension,
+    maxBytes: imageConfig.maxBytes,
+  });
+  if (!resized) {
+    debugLog("image.oversized", { format, ...size, base64Bytes: data.length });
+    return null;
+  }
+  debugLog("image.resized", {
+    from: { format, width: resized.originalWidth, height: resized.originalHeight, base64Bytes: data.length },
+    to: { mimeType: resized.mimeType, width: resized.width, height: resized.height, base64Bytes: resized.data.length },
+  });
+  return { ...image, data: resized.data, mimeType: resized.mimeType };
+}
+
+/**
+ * An image Kiro will accept: a supported format within imageConfig's
+ * dimension and byte limits. Null when it cannot be decoded or shrunk enough.
+ */
+export async function prepareImage(image: ImageContent): Promise<ImageContent | null> {
+  const key = imageKey(image);
+  const prepared = preparedImages.has(key) ? (preparedImages.get(key) ?? null) : await prepareUncached(image);
+  rememberLimited(preparedImages, key, prepared);
+  return prepared;
+}
+
+/** Forget prepared images and captions (tests). */
+export function resetPreparedImages(): void {
+  preparedImages.clear();
+  imageCaptions.clear();
+}
+
+function rememberLimited<T>(cache: Map<string, T>, key: string, value: T): void {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > PREPARED_CACHE_SIZE) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+}
+
+type ContentBlock = TextContent | ImageContent;
+
+async function mapImages(
+  content: ContentBlock[],
+  replace: (image: ImageContent) => Promise<ContentBlock>,
+): Promise<ContentBlock[]> {
+  let changed = false;
+  const mapped: ContentBlock[] = [];
+  for (const block of content) {
+    const replacement = block.type === "image" ? await replace(block) : block;
+    if (replacement !== block) changed = true;
+    mapped.push(replacement);
+  }
+  return changed ? mapped : content;
+}
+
+/** `context` with `replace` applied to every image in user messages and tool results. */
+async function mapContextImages(
+  context: Context,
+  replace: (image: ImageContent, messageIndex: number) => Promise<ContentBlock>,
+): Promise<Context> {
+  let changed = false;
+  const messages: Message[] = [];
+  for (const [index, msg] of context.messages.entries()) {
+    if (msg.role === "assistant" || typeof msg.content === "string") {
+      messages.push(msg);
+      continue;
+    }
+    const content = await mapImages(msg.content, (image) => replace(image, index));
+    if (content === msg.content) {
+      messages.push(msg);
+      continue;
+    }
+    changed = true;
+    messages.push({ ...msg, content } as Message);
+  }
+  return changed ? { ...context, messages } : context;
+}
+
+/**
+ * `context` with every image in user messages and tool results prepared for
+ * upload. Images that cannot be used are replaced by UNUSABLE_IMAGE_NOTE.
+ */
+export async function prepareContextImages(context: Context): Promise<Context> {
+  return mapContextImages(
+    context,
+    async (image) => (await prepareImage(image)) ?? { type: "text", text: UNUSABLE_IMAGE_NOTE },
+  );
+}
+
+async function captionImage(
+  image: ImageContent,
+  captionModel: Model<Api>,
+  complete: ImageCaptionCompletion,
+): Promise<string> {
+  const key = imageKey(image);
+  const cached = imageCaptions.get(key);
+  if (cached !== undefined) {
+    rememberLimited(imageCaptions, key, cached);
+    return cached;
+  }
+  let caption = "";
+  const prepared = await prepareImage(image);
+  if (prepared) {
+    try {
+      caption = (
+        await complete(captionModel, {
+          systemPrompt: CAPTION_PROMPT,
+          messages: [{ role: "user", content: [prepared], timestamp: Date.now() }],
+        })
+      ).trim();
+      debugLog("image.caption", { model: captionModel.id, chars: caption.length });
+    } catch (error) {
+      console.warn(`[pi-provider-kiro] Could not caption an image: ${formatSafeError(error)}`);
+    }
+  }
+  rememberLimited(imageCaptions, key, caption);
+  return caption;
+}
+
+function describeImage(image: ImageContent): string {
+  const bytes = Buffer.from(image.data, "base64");
+  const format = sniffImageFormat(bytes);
+  const size = format ? readImageSize(bytes, format) : undefined;
+  const type = (format ?? image.mimeType.split("/")[1] ?? "image").toUpperCase();
+  return size ? `a ${size.width}x${size.height} ${type}` : `a ${type}`;
+}
+
+export interface TextOnlyImages {
+  context: Context;
+  /** Images replaced in messages after the last assistant turn, i.e. new this turn. */
+  newImages: number;
+}
+
+/**
+ * Replace every image with a text placeholder naming what it was, for a model
+ * that only reads text. With imageConfig.captionModel set (and available in
+ * the region) and `complete` given, the placeholder also carries that model's
+ * description.
+ */
+export async function replaceImagesForTextModel(
+  context: Context,
+  model: Model<Api>,
+  complete?: ImageCaptionCompletion,
+): Promise<TextOnlyImages> {
+  const captionModel =
+    complete && imageConfig.captionModel ? findRoutedModel(imageConfig.captionModel, model) : undefined;
+  if (complete && imageConfig.captionModel && !captionModel) {
+    debugLog("image.caption.unavailable", { modelId: imageConfig.captionModel });
+  }
+  let lastAssistant = context.messages.length - 1;
+  while (lastAssistant >= 0 && context.messages[lastAssistant].role !== "assistant") lastAssistant--;
+  let newImages = 0;
+  const replaced = await mapContextImages(context, async (image, index) => {
+    if (index > lastAssistant) newImages++;
+    const caption = captionModel && complete ? await captionImage(image, captionModel, complete) : "";
+    const note = `[image not shown: ${describeImage(image)}; ${model.id} reads text only]`;
+    return { type: "text", text: caption ? `${note}\nDescription by ${captionModel?.id}: ${caption}` : note };
+  });
+  if (newImages > 0) debugLog("image.textOnly", { model: model.id, newImages });
+  return { context: replaced, newImages };
+}
+
+/** The warning attached to a response whose new images the model could not see. */
+export function textOnlyImageWarning(model: Model<Api>, count: number): KiroError {
+  const images = count === 1 ? "an image" : `${count} images`;
+  const described = imageConfig.captionModel ? "were described in text" : "were replaced by placeholders";
+  return new KiroError("image-unsupported", `${model.id} does not accept images; ${images} ${described}`);
+}
+
+/** Tell the user when images in their message were not shown to a text-only model. */
+export function registerKiroImageNotice(pi: ExtensionAPI): void {
+  pi.on("message_end", async (event, ctx) => {
+    const message = event.message as KiroAssistantMessage;
+    if (message.role !== "assistant" || !ctx.hasUI) return;
+    const warning = message.kiroWarnings?.find((w) => w.code === "image-unsupported");
+    if (warning) ctx.ui.notify(warning.message, "warning");
+  });
+}
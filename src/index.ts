@@ -4,25 +4,64 @@
 
 import type { Api, Model, OAuthCredentials } from "@earendil-works/pi-ai";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { formatSafeError } from "./debug.js";
 import { getKiroEndpoints, resolveApiRegion } from "./endpoints.js";
+import { registerKiroFallbackNotice } from "./fallback.js";
+import { registerKiroFollowups } from "./followups.js";
+import { registerKiroImageNotice } from "./images.js";
 import { getKiroCliCredentials } from "./kiro-cli.js";
 import { setExtensionContext } from "./login-ui.js";
 import { getCachedModels, kiroModels } from "./models.js";
 import type { KiroCredentials } from "./oauth.js";
 import { loginKiro, refreshKiroToken } from "./oauth.js";
+import { applyKiroSettings, loadKiroSettings } from "./settings.js";
 import { streamKiro } from "./stream.js";
 import { fetchKiroUsage } from "./usage.js";
 
 export { resolveApiRegion } from "./endpoints.js";
-export type { KiroStreamEvent } from "./event-parser.js";
+export {
+  isKiroError,
+  KiroError,
+  type KiroErrorCode,
+  type KiroErrorDetails,
+  type KiroErrorInfo,
+} from "./errors.js";
+export type { KiroFollowupPrompt, KiroStreamEvent } from "./event-parser.js";
 export { KIRO_MODEL_IDS, kiroModels, resolveKiroModel } from "./models.js";
-export { streamKiro } from "./stream.js";
+export { type KiroDryRun, type KiroRequest, renderKiroRequest } from "./request.js";
+export { type KiroSettings, KiroSettingsError } from "./settings.js";
+export { type KiroAssistantMessage, streamKiro } from "./stream.js";
+export {
+  type KiroMetricsSink,
+  type KiroRequestKind,
+  type KiroRequestMetrics,
+  type KiroRetryCause,
+  registerKiroMetricsSink,
+} from "./telemetry.js";
+export {
+  type TextToolCallGrammar,
+  type TextToolCallMatch,
+  type TextToolCallProgress,
+  textToolCallGrammars,
+} from "./text-tool-calls.js";
 
 export default function (pi: ExtensionAPI) {
+  // Invalid settings leave the defaults in place rather than breaking the provider
+  let settingsError: string | undefined;
+  try {
+    applyKiroSettings(loadKiroSettings());
+  } catch (error) {
+    settingsError = formatSafeError(error);
+    console.error(`[pi-provider-kiro] ${settingsError}`);
+  }
   // Capture ctx for the custom TUI login component
   pi.on("session_start", async (_event, ctx) => {
     setExtensionContext(ctx);
+    if (settingsError && ctx.hasUI) ctx.ui.notify(`${settingsError}\nUsing default settings.`, "error");
   });
+  registerKiroFollowups(pi);
+  registerKiroFallbackNotice(pi);
+  registerKiroImageNotice(pi);
   pi.registerProvider("kiro", {
     baseUrl: getKiroEndpoints("us-east-1").runtime,
     api: "kiro-api",
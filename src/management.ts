@@ -4,6 +4,7 @@
 import { createHash } from "node:crypto";
 import { redactSensitiveText } from "./debug.js";
 import { getKiroEndpoints } from "./endpoints.js";
+import { KiroError } from "./errors.js";
 
 const LIST_PROFILES_PATH = "List-Available-Profiles";
 const LIST_MODELS_PATH = "List-Available-Models";
@@ -142,7 +143,10 @@ export async function resolveKiroProfileArn(auth: KiroManagementAuth, providedAr
     );
     const arn = response.profiles?.find((profile) => profile.arn)?.arn;
     if (!arn) {
-      throw new Error(`Kiro management ListAvailableProfiles returned no profile in ${auth.region}`);
+      throw new KiroError(
+        "profile-missing",
+        `Kiro management ListAvailableProfiles returned no profile in ${auth.region}`,
+      );
     }
     profileArnCache.set(key, arn);
     return arn;
@@ -16,6 +16,11 @@ export const KIRO_MANAGEMENT_CACHE_SOURCE = "kiro-management";
 export const KIRO_MANAGEMENT_CACHE_PATH = join(homedir(), ".kiro-management-models-cache.json");
 
 const CACHE_MAX_AGE_MS = 3600_000;
+
+// Mutable so user settings can change how long the catalog cache stays fresh
+export const modelCacheConfig = {
+  maxAgeMs: CACHE_MAX_AGE_MS,
+};
 const DEFAULT_CONTEXT_WINDOW = 200_000;
 const DEFAULT_MAX_TOKENS = 8_192;
 const BASE_URL = getKiroEndpoints("us-east-1").runtime;
@@ -490,7 +495,7 @@ export function getCachedModels(region: string): KiroModel[] {
 
 export function isCacheStale(region: string): boolean {
   const entry = readManagementCache()?.regions[region];
-  return !entry || Date.now() - entry.fetchedAt > CACHE_MAX_AGE_MS;
+  return !entry || Date.now() - entry.fetchedAt > modelCacheConfig.maxAgeMs;
 }
 
 export async function updateKiroModelsCache(accessToken: string, region: string, profileArn?: string): Promise<void> {
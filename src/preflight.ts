@@ -0,0 +1,99 @@
+// ABOUTME: Preflight size check run on every Kiro request before it is sent.
+// ABOUTME: Trims the oldest history to fit the model's context window and body limit, or reports the overflow.
+
+import { CHARS_PER_TOKEN, countHistoryTokens, IMAGE_TOKEN_ESTIMATE, truncateHistory } from "./history.js";
+import type { KiroRequest } from "./request.js";
+
+/** Conservative ceiling on the serialized request body. */
+export const MAX_REQUEST_BYTES = 8 * 1024 * 1024;
+
+// Mutable so user settings can change the body ceiling
+export const preflightConfig = {
+  maxBytes: MAX_REQUEST_BYTES,
+};
+
+export interface KiroRequestEstimate {
+  /** Size of the serialized body in bytes. */
+  bytes: number;
+  /** Estimated input tokens, counting text at CHARS_PER_TOKEN and each image at IMAGE_TOKEN_ESTIMATE. */
+  tokens: number;
+  images: number;
+}
+
+export interface KiroPreflightResult {
+  request: KiroRequest;
+  estimate: KiroRequestEstimate;
+  /** History entries removed to make the request fit. */
+  droppedHistoryEntries: number;
+  /** Why the request still does not fit, once no more history can be dropped. */
+  overflow?: string;
+}
+
+function requestImages(request: KiroRequest) {
+  const { history = [], currentMessage } = request.conversationState;
+  return [
+    ...(currentMessage.userInputMessage.images ?? []),
+    ...history.flatMap((entry) => entry.userInputMessage?.images ?? []),
+  ];
+}
+
+/** Cheap size estimate: one serialization, no tokenizer pass. */
+export function estimateKiroRequest(request: KiroRequest): KiroRequestEstimate {
+  const body = JSON.stringify(request);
+  const images = requestImages(request);
+  const imageChars = images.reduce((sum, image) => sum + image.source.bytes.length, 0);
+  return {
+    bytes: Buffer.byteLength(body),
+    tokens: Math.ceil((body.length - imageChars) / CHARS_PER_TOKEN) + images.length * IMAGE_TOKEN_ESTIMATE,
+    images: images.length,
+  };
+}
+
+/** Worded like Kiro's own 413 so pi-ai's isContextOverflow() recognizes it and compacts. */
+export function preflightOverflowMessage(overflow: string): string {
+  return `Kiro API error: context_length_exceeded (preflight: ${overflow})`;
+}
+
+function describeOverflow(estimate: KiroRequestEstimate, maxTokens: number): string | undefined {
+  if (estimate.tokens > maxTokens) return `~${estimate.tokens} tokens exceeds the ${maxTokens}-token context window`;
+  if (estimate.bytes > preflightConfig.maxBytes) {
+    return `${estimate.bytes}-byte request exceeds the ${preflightConfig.maxBytes}-byte limit`;
+  }
+  return undefined;
+}
+
+/**
+ * Drop the oldest history until the request fits `maxTokens` and the body
+ * ceiling. History shrinks by the estimated overshoot each pass, so the result
+ * is the same for the same input. When history can shrink no further the
+ * smallest request is returned with `overflow` set.
+ */
+export function preflightKiroRequest(request: KiroRequest, maxTokens: number): KiroPreflightResult {
+  const originalHistory = request.conversationState.history ?? [];
+  let estimate = estimateKiroRequest(request);
+  let overflow = describeOverflow(estimate, maxTokens);
+  let history = originalHistory;
+  while (overflow && history.length > 0) {
+    const excessTokens = Math.max(
+      estimate.tokens - maxTokens,
+      (estimate.bytes - preflightConfig.maxBytes) / CHARS_PER_TOKEN,
+    );
+    const trimmed = truncateHistory(history, Math.max(0, countHistoryTokens(history) - Math.ceil(excessTokens)));
+    // truncateHistory stops at the last two entries, which the current tool results may refer to
+    if (trimmed.length >= history.length) break;
+    history = trimmed;
+    const { history: _dropped, ...conversationState } = request.conversationState;
+    request = {
+      ...request,
+      conversationState: { ...conversationState, ...(history.length > 0 ? { history } : {}) },
+    };
+    estimate = estimateKiroRequest(request);
+    overflow = describeOverflow(estimate, maxTokens);
+  }
+  return {
+    request,
+    estimate,
+    droppedHistoryEntries: Math.max(0, originalHistory.length - history.length),
+    ...(overflow ? { overflow } : {}),
+  };
+}
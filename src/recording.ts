@@ -0,0 +1,183 @@
+// ABOUTME: Record and replay of raw Kiro runtime exchanges for deterministic regression fixtures.
+// ABOUTME: KIRO_RECORD_DIR captures request payloads and event-stream bytes; KIRO_REPLAY_DIR serves them back.
+
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { debugLog, redactSensitiveText } from "./debug.js";
+
+const FIXTURE_PATTERN = /^(\d+)\.json$/;
+
+/** Metadata written next to each recorded event stream as `<index>.json`. */
+export interface KiroFixture {
+  recordedAt: string;
+  endpoint: string;
+  request: unknown;
+  response: { status: number; statusText: string; headers?: Record<string, string>; body?: string };
+}
+
+const nextRecordIndex = new Map<string, number>();
+const replayCursor = new Map<string, number>();
+
+export function isKiroReplayEnabled(): boolean {
+  return !!process.env.KIRO_REPLAY_DIR;
+}
+
+/** Reset replay cursors so the next request starts from the first fixture again. */
+export function resetKiroReplay(): void {
+  replayCursor.clear();
+}
+
+function fixtureName(index: number): string {
+  return String(index).padStart(4, "0");
+}
+
+function listFixtureIndices(dir: string): number[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((name) => FIXTURE_PATTERN.exec(name)?.[1])
+    .filter((index): index is string => index !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+function allocateRecordIndex(dir: string): number {
+  let next = nextRecordIndex.get(dir);
+  if (next === undefined) {
+    mkdirSync(dir, { recursive: true });
+    next = (listFixtureIndices(dir).at(-1) ?? 0) + 1;
+  }
+  nextRecordIndex.set(dir, next + 1);
+  return next;
+}
+
+function parseRequestBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string") return undefined;
+  try {
+    return JSON.parse(redactSensitiveText(body));
+  } catch {
+    return redactSensitiveText(body);
+  }
+}
+
+async function writeFixture(dir: string, index: number, fixture: KiroFixture, stream?: Uint8Array): Promise<void> {
+  try {
+    if (stream) await writeFile(join(dir, `${fixtureName(index)}.eventstream`), stream);
+    await writeFile(join(dir, `${fixtureName(index)}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+  } catch (error) {
+    // best-effort; never break the provider
+    debugLog("record.error", { dir, index, error: String(error) });
+  }
+}
+
+function recordHeaders(headers: Headers): Record<string, string> {
+  return Object.fromEntries([...headers.entries()].map(([name, value]) => [name, redactSensitiveText(value)]));
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+async function recordExchange(dir: string, endpoint: string, init: RequestInit, response: Response): Promise<Response> {
+  const index = allocateRecordIndex(dir);
+  const fixture: KiroFixture = {
+    recordedAt: new Date().toISOString(),
+    endpoint,
+    request: parseRequestBody(init.body),
+    response: { status: response.status, statusText: response.statusText, headers: recordHeaders(response.headers) },
+  };
+
+  if (!response.ok || !response.body) {
+    const body = await response.text().catch(() => "");
+    fixture.response.body = redactSensitiveText(body);
+    await writeFixture(dir, index, fixture);
+    debugLog("record.saved", { dir, index, status: response.status });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  // Tee the raw bytes as the provider consumes them. Whatever arrived before a
+  // cancel (idle timeout, abort) is still written so truncated streams replay too.
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let saved = false;
+  const save = async () => {
+    if (saved) return;
+    saved = true;
+    await writeFixture(dir, index, fixture, concatChunks(chunks));
+    debugLog("record.saved", { dir, index, bytes: chunks.reduce((sum, chunk) => sum + chunk.length, 0) });
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          await save();
+          controller.close();
+          return;
+        }
+        chunks.push(value);
+        controller.enqueue(value);
+      } catch (error) {
+        await save();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await save();
+      await reader.cancel(reason).catch(() => {});
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+function replayExchange(dir: string, endpoint: string): Response {
+  const indices = listFixtureIndices(dir);
+  const cursor = replayCursor.get(dir) ?? 0;
+  const index = indices[cursor];
+  if (index === undefined) {
+    throw new Error(`Kiro replay fixtures exhausted in ${dir} after ${indices.length} request(s)`);
+  }
+  replayCursor.set(dir, cursor + 1);
+
+  const fixture = JSON.parse(readFileSync(join(dir, `${fixtureName(index)}.json`), "utf-8")) as KiroFixture;
+  debugLog("replay.serve", {
+    dir,
+    index,
+    endpoint,
+    recordedEndpoint: fixture.endpoint,
+    status: fixture.response.status,
+  });
+  const { status, statusText, headers, body } = fixture.response;
+  if (status < 200 || status >= 300) return new Response(body ?? "", { status, statusText, headers });
+
+  const streamPath = join(dir, `${fixtureName(index)}.eventstream`);
+  const bytes = existsSync(streamPath) ? new Uint8Array(readFileSync(streamPath)) : new Uint8Array();
+  // Fixtures recorded before headers were saved still replay as an event stream
+  return new Response(bytes, {
+    status,
+    statusText,
+    headers: headers ?? { "Content-Type": "application/vnd.amazon.eventstream" },
+  });
+}
+
+/**
+ * Send a runtime request, honoring KIRO_REPLAY_DIR (serve recorded fixtures in
+ * order, no network) and KIRO_RECORD_DIR (capture each exchange to disk).
+ */
+export async function fetchKiroRuntime(endpoint: string, init: RequestInit): Promise<Response> {
+  const replayDir = process.env.KIRO_REPLAY_DIR;
+  if (replayDir) {
+    if (init.signal?.aborted) throw init.signal.reason;
+    return replayExchange(replayDir, endpoint);
+  }
+
+  const response = await fetch(endpoint, init);
+  const recordDir = process.env.KIRO_RECORD_DIR;
+  return recordDir ? recordExchange(recordDir, endpoint, init, response) : response;
+}
@@ -0,0 +1,315 @@
+// ABOUTME: Builds the Kiro generateAssistantResponse payload from a pi context.
+// ABOUTME: Shared by streamKiro and the dry-run renderer so both produce the exact same request.
+
+import type {
+  Api,
+  AssistantMessage,
+  Context,
+  ImageContent,
+  Model,
+  SimpleStreamOptions,
+  ToolResultMessage,
+} from "@earendil-works/pi-ai";
+import {
+  buildKiroAdditionalModelRequestFields,
+  getKiroEffortConfig,
+  type KiroAdditionalModelRequestFields,
+} from "./effort.js";
+import { getKiroEndpoints, getKiroRegionFromEndpoint } from "./endpoints.js";
+import { KiroError } from "./errors.js";
+import { addPlaceholderTools, historyTokenBudget, IMAGE_TOKEN_ESTIMATE, truncateHistory } from "./history.js";
+import { resolveKiroModel } from "./models.js";
+import { preflightKiroRequest, preflightOverflowMessage } from "./preflight.js";
+import { countTokens, countTokensCached } from "./tokenizer.js";
+import {
+  buildHistory,
+  convertAssistantMessage,
+  convertImagesToKiro,
+  convertToolsToKiro,
+  extractImages,
+  getContentText,
+  type KiroHistoryEntry,
+  type KiroImage,
+  type KiroToolResult,
+  type KiroToolSpec,
+  type KiroUserInputMessage,
+  normalizeMessages,
+  reasoningReplaySupported,
+  sanitizeSurrogates,
+  toolResultConfig,
+  truncate,
+} from "./transform.js";
+import { TRUNCATION_NOTICE, wasPreviousResponseTruncated } from "./truncation.js";
+
+export interface KiroRequest {
+  conversationState: {
+    chatTriggerType: "MANUAL";
+    agentTaskType: "vibe";
+    conversationId: string;
+    currentMessage: { userInputMessage: KiroUserInputMessage };
+    history?: KiroHistoryEntry[];
+  };
+  additionalModelRequestFields?: KiroAdditionalModelRequestFields;
+  profileArn: string;
+  agentMode?: string;
+}
+
+/** Stands in for the profile ARN when a dry run cannot take it from the model or options. */
+export const DRY_RUN_PROFILE_ARN = "<resolved at send time>";
+
+/** A rendered request that was never sent, returned by renderKiroRequest and by dry-run streams. */
+export interface KiroDryRun {
+  endpoint: string;
+  request: KiroRequest;
+  /** Size of the JSON body as it would go over the wire. */
+  bytes: number;
+  /** cl100k token estimates for text, plus IMAGE_TOKEN_ESTIMATE per image. */
+  estimatedTokens: { history: number; currentMessage: number; tools: number; images: number; total: number };
+  imageCount: number;
+  /** Oldest history entries the preflight check dropped to fit the model. */
+  droppedHistoryEntries: number;
+}
+
+export type KiroModelMetadata = Model<Api> & {
+  kiroModelId?: string;
+  kiroRegion?: string;
+  kiroProfileArn?: string;
+  additionalModelRequestFieldsSchema?: Record<string, unknown>;
+};
+
+/** Per-call request settings that stay fixed across retries. */
+export interface KiroRequestPlan {
+  region: string;
+  endpoint: string;
+  kiroModelId: string;
+  thinkingEnabled: boolean;
+  /** The context's system prompt with the thinking markers applied. */
+  systemPrompt: string;
+  additionalModelRequestFields?: KiroAdditionalModelRequestFields;
+}
+
+export function planKiroRequest(model: Model<Api>, context: Context, options?: SimpleStreamOptions): KiroRequestPlan {
+  const modelMetadata = model as KiroModelMetadata;
+  const region = modelMetadata.kiroRegion ?? getKiroRegionFromEndpoint(model.baseUrl) ?? "us-east-1";
+  const endpoint = new URL("generateAssistantResponse", getKiroEndpoints(region).runtime).toString();
+  const kiroModelId = resolveKiroModel(model.id, modelMetadata.kiroModelId);
+  const effortConfig = getKiroEffortConfig(modelMetadata, kiroModelId);
+  const additionalModelRequestFields = buildKiroAdditionalModelRequestFields(
+    modelMetadata,
+    kiroModelId,
+    options?.reasoning,
+  );
+  const thinkingEnabled = !!options?.reasoning || model.reasoning;
+  let systemPrompt = context.systemPrompt ?? "";
+  // Kiro's runtime endpoint honors structured effort but only exposes Claude's
+  // user-visible thinking stream when the legacy thinking markers are also
+  // present. Keep both controls: structured fields select effort, while these
+  // markers preserve the <thinking> content consumed by ThinkingTagParser.
+  if (thinkingEnabled && effortConfig?.field !== "reasoning") {
+    const budget =
+      options?.reasoning === "xhigh"
+        ? 50000
+        : options?.reasoning === "high"
+          ? 30000
+          : options?.reasoning === "medium"
+            ? 20000
+            : 10000;
+    systemPrompt = `<thinking_mode>enabled</thinking_mode><max_thinking_length>${budget}</max_thinking_length>${systemPrompt ? `\n${systemPrompt}` : ""}`;
+  }
+  return {
+    region,
+    endpoint,
+    kiroModelId,
+    thinkingEnabled,
+    systemPrompt,
+    ...(additionalModelRequestFields ? { additionalModelRequestFields } : {}),
+  };
+}
+
+export function buildKiroRequest(
+  model: Model<Api>,
+  context: Context,
+  plan: KiroRequestPlan,
+  conversationId: string,
+  profileArn: string,
+  reasoningReplay = true,
+): KiroRequest {
+  const { kiroModelId, systemPrompt, additionalModelRequestFields } = plan;
+  const normalized = normalizeMessages(context.messages);
+  // Thinking is only re-sent as reasoning content while Kiro accepts it for this model in this session
+  const replay =
+    reasoningReplay && reasoningReplaySupported(conversationId, model.id)
+      ? { provider: model.provider, model: model.id }
+      : undefined;
+  const {
+    history: rawHistory,
+    systemPrepended,
+    currentMsgStartIdx,
+  } = buildHistory(normalized, kiroModelId, systemPrompt, replay);
+  const baseTools = context.tools?.length ? convertToolsToKiro(context.tools) : [];
+  const toolTokens = baseTools.length > 0 ? countTokensCached(JSON.stringify(baseTools)) : 0;
+  const history = truncateHistory(rawHistory, historyTokenBudget(model, toolTokens));
+  const toolResultLimit = toolResultConfig.limit;
+  const currentMessages = normalized.slice(currentMsgStartIdx);
+  const firstMsg = currentMessages[0];
+  let currentContent = "";
+  const currentToolResults: KiroToolResult[] = [];
+  let currentImages: KiroImage[] | undefined;
+  if (firstMsg?.role === "assistant") {
+    const arm = convertAssistantMessage(firstMsg as AssistantMessage, replay);
+    if (arm) {
+      const lastEntryForArm = history[history.length - 1];
+      const prevArm = lastEntryForArm?.assistantResponseMessage;
+      if (history.length > 0 && !lastEntryForArm?.userInputMessage && prevArm) {
+        // Merge into previous assistant message to maintain alternation without synthetic padding
+        prevArm.content += `\n\n${arm.content}`;
+        if (arm.toolUses) prevArm.toolUses = [...(prevArm.toolUses || []), ...arm.toolUses];
+        prevArm.reasoningContent ??= arm.reasoningContent;
+      } else {
+        history.push({ assistantResponseMessage: arm });
+      }
+    }
+    const toolResultImages: ImageContent[] = [];
+    for (let i = 1; i < currentMessages.length; i++) {
+      const m = currentMessages[i];
+      if (m.role === "toolResult") {
+        const trm = m as ToolResultMessage;
+        currentToolResults.push({
+          content: [{ text: truncate(getContentText(m), toolResultLimit) }],
+          status: trm.isError ? "error" : "success",
+          toolUseId: trm.toolCallId,
+        });
+        if (Array.isArray(trm.content))
+          for (const c of trm.content) if (c.type === "image") toolResultImages.push(c as ImageContent);
+      }
+    }
+    if (toolResultImages.length > 0) {
+      const converted = convertImagesToKiro(toolResultImages);
+      currentImages = currentImages ? [...currentImages, ...converted] : converted;
+    }
+    currentContent = currentToolResults.length > 0 ? "Tool results provided." : "Please proceed with the task.";
+  } else if (firstMsg?.role === "toolResult") {
+    const toolResultImages2: ImageContent[] = [];
+    for (const m of currentMessages)
+      if (m.role === "toolResult") {
+        const trm = m as ToolResultMessage;
+        currentToolResults.push({
+          content: [{ text: truncate(getContentText(m), toolResultLimit) }],
+          status: trm.isError ? "error" : "success",
+          toolUseId: trm.toolCallId,
+        });
+        if (Array.isArray(trm.content))
+          for (const c of trm.content) if (c.type === "image") toolResultImages2.push(c as ImageContent);
+      }
+    if (toolResultImages2.length > 0) {
+      const converted = convertImagesToKiro(toolResultImages2);
+      currentImages = currentImages ? [...currentImages, ...converted] : converted;
+    }
+    currentContent = "Tool results provided.";
+  } else if (firstMsg?.role === "user") {
+    currentContent = typeof firstMsg.content === "string" ? firstMsg.content : getContentText(firstMsg);
+    if (systemPrompt && !systemPrepended) currentContent = `${systemPrompt}\n\n${currentContent}`;
+  }
+  // Prepend truncation notice if the previous assistant response was cut off
+  if (wasPreviousResponseTruncated(context.messages)) {
+    currentContent = `${TRUNCATION_NOTICE}\n\n${currentContent}`;
+  }
+  // Always synthesize placeholder specs for tool names referenced in
+  // history, even when context.tools is empty/undefined. Without this,
+  // an "advisor-style" call that inherits a tool-rich conversation but
+  // declares no current tools is rejected by Kiro as "Improperly formed
+  // request" because history references toolUses with no tool catalog.
+  let uimc: { toolResults?: KiroToolResult[]; tools?: KiroToolSpec[] } | undefined;
+  const finalTools = history.length > 0 ? addPlaceholderTools(baseTools, history) : baseTools;
+  if (currentToolResults.length > 0 || finalTools.length > 0) {
+    uimc = {};
+    if (currentToolResults.length > 0) uimc.toolResults = currentToolResults;
+    if (finalTools.length > 0) uimc.tools = finalTools;
+  }
+  if (firstMsg?.role === "user") {
+    const imgs = extractImages(firstMsg);
+    if (imgs.length > 0) currentImages = convertImagesToKiro(imgs as ImageContent[]);
+  }
+  // kiro-cli does not enforce alternation — the API accepts
+  // non-alternating history. No synthetic padding needed.
+  return {
+    conversationState: {
+      chatTriggerType: "MANUAL",
+      agentTaskType: "vibe",
+      conversationId,
+      currentMessage: {
+        userInputMessage: {
+          content: sanitizeSurrogates(currentContent),
+          modelId: kiroModelId,
+          origin: "KIRO_CLI",
+          ...(currentImages ? { images: currentImages } : {}),
+          ...(uimc ? { userInputMessageContext: uimc } : {}),
+        },
+      },
+      ...(history.length > 0 ? { history } : {}),
+    },
+    ...(additionalModelRequestFields ? { additionalModelRequestFields } : {}),
+    profileArn,
+    agentMode: "vibe",
+  };
+}
+
+function userInputText(message: KiroUserInputMessage, includeTools: boolean): string {
+  const parts = [message.content];
+  for (const result of message.userInputMessageContext?.toolResults ?? []) {
+    for (const block of result.content) parts.push(block.text);
+  }
+  if (includeTools && message.userInputMessageContext?.tools) {
+    parts.push(JSON.stringify(message.userInputMessageContext.tools));
+  }
+  return parts.join("\n");
+}
+
+function historyText(entry: KiroHistoryEntry): string {
+  if (entry.userInputMessage) return userInputText(entry.userInputMessage, true);
+  const arm = entry.assistantResponseMessage;
+  if (!arm) return "";
+  return [arm.content, ...(arm.toolUses ?? []).map((use) => JSON.stringify(use.input))].join("\n");
+}
+
+/** Size and token estimates for a request body. */
+export function measureKiroRequest(
+  request: KiroRequest,
+): Omit<KiroDryRun, "endpoint" | "request" | "droppedHistoryEntries"> {
+  const { history = [], currentMessage } = request.conversationState;
+  const current = currentMessage.userInputMessage;
+  const historyTokens = history.reduce((sum, entry) => sum + countTokens(historyText(entry)), 0);
+  const currentTokens = countTokens(userInputText(current, false));
+  const tools = current.userInputMessageContext?.tools;
+  const toolTokens = tools ? countTokens(JSON.stringify(tools)) : 0;
+  const imageCount =
+    (current.images?.length ?? 0) +
+    history.reduce((sum, entry) => sum + (entry.userInputMessage?.images?.length ?? 0), 0);
+  return {
+    bytes: Buffer.byteLength(JSON.stringify(request)),
+    estimatedTokens: {
+      history: historyTokens,
+      currentMessage: currentTokens,
+      tools: toolTokens,
+      images: imageCount * IMAGE_TOKEN_ESTIMATE,
+      total: historyTokens + currentTokens + toolTokens + imageCount * IMAGE_TOKEN_ESTIMATE,
+    },
+    imageCount,
+  };
+}
+
+/**
+ * Run the full request pipeline without touching the network. The profile ARN
+ * comes from the model or options when known, else DRY_RUN_PROFILE_ARN.
+ */
+export function renderKiroRequest(model: Model<Api>, context: Context, options?: SimpleStreamOptions): KiroDryRun {
+  const plan = planKiroRequest(model, context, options);
+  const profileArn =
+    (model as KiroModelMetadata).kiroProfileArn ||
+    (options as { profileArn?: string } | undefined)?.profileArn ||
+    DRY_RUN_PROFILE_ARN;
+  const built = buildKiroRequest(model, context, plan, options?.sessionId ?? crypto.randomUUID(), profileArn);
+  const { request, droppedHistoryEntries, overflow } = preflightKiroRequest(built, model.contextWindow);
+  if (overflow) throw new KiroError("context-too-large", preflightOverflowMessage(overflow));
+  return { endpoint: plan.endpoint, request, droppedHistoryEntries, ...measureKiroRequest(request) };
+}
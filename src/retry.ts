@@ -7,19 +7,22 @@ import { kiroModels } from "./models.js";
 // and 5-minute stalled stream grace period. 90s matches the TUI's
 // INITIAL_RESPONSE_TIMEOUT_MS for the first event from the backend.
 export const FIRST_TOKEN_TIMEOUT = 90_000;
+// Cancel a stream that goes quiet this long after the first token
+export const IDLE_TIMEOUT = 300_000;
+/** Provider-local retries for 403 refreshes, stalled streams, and empty responses. */
+export const MAX_RETRIES = 3;
 
 export function firstTokenTimeoutForModel(modelId: string): number {
-  // Allow test overrides via retryConfig.firstTokenTimeoutMs
-  if (retryConfig.firstTokenTimeoutMs !== FIRST_TOKEN_TIMEOUT) {
-    return retryConfig.firstTokenTimeoutMs;
-  }
+  if (retryConfig.firstTokenTimeoutMs !== undefined) return retryConfig.firstTokenTimeoutMs;
   const model = kiroModels.find((m) => m.id === modelId);
   return model?.firstTokenTimeout ?? FIRST_TOKEN_TIMEOUT;
 }
 
-// Mutable config for values that tests need to override
-export const retryConfig = {
-  firstTokenTimeoutMs: FIRST_TOKEN_TIMEOUT,
+// Mutable config for values that tests and user settings override.
+// firstTokenTimeoutMs is unset unless overridden, leaving the per-model timeouts in charge.
+export const retryConfig: { firstTokenTimeoutMs?: number; idleTimeoutMs: number; maxRetries: number } = {
+  idleTimeoutMs: IDLE_TIMEOUT,
+  maxRetries: MAX_RETRIES,
 };
 
 export function exponentialBackoff(attempt: number, baseMs: number, maxMs: number): number {
@@ -40,6 +43,17 @@ export const capacityRetryConfig = {
   baseDelayMs: CAPACITY_BASE_DELAY_MS,
 };
 
+// Circuit breaker shared across sessions: open after this many consecutive
+// capacity errors for a model, then let one probe through per cooldown.
+export const CAPACITY_BREAKER_THRESHOLD = 4;
+export const CAPACITY_BREAKER_COOLDOWN_MS = 60_000;
+
+// Mutable breaker config for testing
+export const capacityBreakerConfig = {
+  failureThreshold: CAPACITY_BREAKER_THRESHOLD,
+  cooldownMs: CAPACITY_BREAKER_COOLDOWN_MS,
+};
+
 /** Check whether an HTTP error represents a "request too large" condition. */
 export function isTooBigError(status: number, errorText: string): boolean {
   return status === 413 || (status === 400 && TOO_BIG_PATTERNS.some((p) => errorText.includes(p)));
@@ -0,0 +1,198 @@
+// ABOUTME: Loads and validates the user settings file (~/.pi/kiro.json, overridden by <project>/.pi/kiro.json).
+// ABOUTME: Validated values are applied onto the provider's mutable config objects at registration.
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { regionConfig } from "./endpoints.js";
+import { fallbackConfig } from "./fallback.js";
+import { historyConfig, historyImageConfig } from "./history.js";
+import { imageConfig } from "./images.js";
+import { modelCacheConfig } from "./models.js";
+import { preflightConfig } from "./preflight.js";
+import { capacityBreakerConfig, capacityRetryConfig, retryConfig } from "./retry.js";
+import { summaryConfig } from "./summary.js";
+import { type ThinkingHistoryFallback, thinkingHistoryConfig, toolResultConfig } from "./transform.js";
+
+export const KIRO_SETTINGS_FILE = "kiro.json";
+
+export interface KiroSettings {
+  /** Wait for the first streamed event before retrying. Overrides the per-model defaults. */
+  firstTokenTimeoutMs?: number;
+  /** Cancel and retry a stream that goes quiet this long. */
+  idleTimeoutMs?: number;
+  /** Provider-local retries for 403 refreshes, stalled streams, and empty responses. */
+  maxRetries?: number;
+  capacityMaxRetries?: number;
+  capacityBaseDelayMs?: number;
+  capacityBreakerThreshold?: number;
+  capacityBreakerCooldownMs?: number;
+  /** Cap on history tokens; by default history may use the context window minus output and tool catalog. */
+  historyMaxTokens?: number;
+  /** Images kept in history, newest first; 0 (the default) keeps only images in pinned turns. */
+  historyMaxImages?: number;
+  /** Cap on the decoded bytes of those images. */
+  historyMaxImageBytes?: number;
+  /** Longer edge, in pixels, past which images are downscaled before upload. */
+  imageMaxDimension?: number;
+  /** Base64 bytes per image, past which images are re-encoded smaller before upload. */
+  imageMaxBytes?: number;
+  /** Vision model that describes images for text-only models, e.g. "claude-haiku-4-5". Off by default. */
+  imageCaptionModel?: string;
+  /** Characters kept from each tool result. */
+  toolResultLimit?: number;
+  /** Thinking that cannot be re-sent natively: "text" (the default) keeps it as tagged text, "drop" omits it. */
+  thinkingHistoryFallback?: ThinkingHistoryFallback;
+  modelCacheMaxAgeMs?: number;
+  /** Largest request body sent; bigger requests drop old history first. */
+  maxRequestBytes?: number;
+  /** Summarize history that truncation drops instead of leaving a bare "[N earlier turns omitted]" marker. */
+  historySummaries?: boolean;
+  /** Model that writes those summaries; defaults to claude-haiku-4-5. */
+  historySummaryModel?: string;
+  /** SSO region to Kiro API region, merged over the built-in mapping. */
+  regionMap?: Record<string, string>;
+  /** Capacity fallback chains, e.g. [["claude-opus-4-8", "claude-opus-4-7", "claude-sonnet-5"]]. */
+  modelFallbacks?: string[][];
+}
+
+type NumericSetting = Exclude<
+  keyof KiroSettings,
+  | "regionMap"
+  | "modelFallbacks"
+  | "historySummaries"
+  | "historySummaryModel"
+  | "imageCaptionModel"
+  | "thinkingHistoryFallback"
+>;
+
+// Minimum accepted value per numeric setting; all must be integers
+const NUMERIC_SETTINGS: Record<NumericSetting, 0 | 1> = {
+  firstTokenTimeoutMs: 1,
+  idleTimeoutMs: 1,
+  maxRetries: 0,
+  capacityMaxRetries: 0,
+  capacityBaseDelayMs: 0,
+  capacityBreakerThreshold: 1,
+  capacityBreakerCooldownMs: 0,
+  historyMaxTokens: 1,
+  historyMaxImages: 0,
+  historyMaxImageBytes: 1,
+  imageMaxDimension: 1,
+  imageMaxBytes: 1,
+  toolResultLimit: 1,
+  modelCacheMaxAgeMs: 0,
+  maxRequestBytes: 1,
+};
+
+export class KiroSettingsError extends Error {
+  constructor(
+    readonly file: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid Kiro settings in ${file}:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "KiroSettingsError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Check a parsed settings object, reporting every problem at once. */
+export function validateKiroSettings(value: unknown, file: string): KiroSettings {
+  if (!isRecord(value)) throw new KiroSettingsError(file, ["settings must be a JSON object"]);
+
+  const problems: string[] = [];
+  for (const [key, setting] of Object.entries(value)) {
+    if (key in NUMERIC_SETTINGS) {
+      const min = NUMERIC_SETTINGS[key as NumericSetting];
+      if (!Number.isInteger(setting) || (setting as number) < min) {
+        problems.push(`${key} must be ${min === 0 ? "a non-negative" : "a positive"} integer`);
+      }
+    } else if (key === "historySummaries") {
+      if (typeof setting !== "boolean") problems.push("historySummaries must be true or false");
+    } else if (key === "historySummaryModel" || key === "imageCaptionModel") {
+      if (typeof setting !== "string" || !setting.trim()) problems.push(`${key} must be a model ID`);
+    } else if (key === "thinkingHistoryFallback") {
+      if (setting !== "text" && setting !== "drop") problems.push('thinkingHistoryFallback must be "text" or "drop"');
+    } else if (key === "regionMap") {
+      if (!isRecord(setting) || Object.values(setting).some((region) => typeof region !== "string" || !region)) {
+        problems.push("regionMap must map region names to non-empty region names");
+      }
+    } else if (key === "modelFallbacks") {
+      if (
+        !Array.isArray(setting) ||
+        setting.some(
+          (chain) =>
+            !Array.isArray(chain) || chain.length < 2 || chain.some((id) => typeof id !== "string" || !id.trim()),
+        )
+      ) {
+        problems.push("modelFallbacks must be a list of chains, each listing at least two model IDs");
+      }
+    } else {
+      problems.push(`unknown setting "${key}"`);
+    }
+  }
+  if (problems.length > 0) throw new KiroSettingsError(file, problems);
+  return value as KiroSettings;
+}
+
+function readSettingsFile(file: string): KiroSettings {
+  if (!existsSync(file)) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new KiroSettingsError(file, [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return validateKiroSettings(value, file);
+}
+
+export function globalSettingsPath(): string {
+  return join(homedir(), ".pi", KIRO_SETTINGS_FILE);
+}
+
+export function projectSettingsPath(cwd: string = process.cwd()): string {
+  return join(cwd, ".pi", KIRO_SETTINGS_FILE);
+}
+
+/** Read global then project settings; project values win, and region maps merge. */
+export function loadKiroSettings(cwd?: string): KiroSettings {
+  const global = readSettingsFile(globalSettingsPath());
+  const project = readSettingsFile(projectSettingsPath(cwd));
+  const merged: KiroSettings = { ...global, ...project };
+  if (global.regionMap || project.regionMap) merged.regionMap = { ...global.regionMap, ...project.regionMap };
+  return merged;
+}
+
+export function applyKiroSettings(settings: KiroSettings): void {
+  if (settings.firstTokenTimeoutMs !== undefined) retryConfig.firstTokenTimeoutMs = settings.firstTokenTimeoutMs;
+  if (settings.idleTimeoutMs !== undefined) retryConfig.idleTimeoutMs = settings.idleTimeoutMs;
+  if (settings.maxRetries !== undefined) retryConfig.maxRetries = settings.maxRetries;
+  if (settings.capacityMaxRetries !== undefined) capacityRetryConfig.maxRetries = settings.capacityMaxRetries;
+  if (settings.capacityBaseDelayMs !== undefined) capacityRetryConfig.baseDelayMs = settings.capacityBaseDelayMs;
+  if (settings.capacityBreakerThreshold !== undefined) {
+    capacityBreakerConfig.failureThreshold = settings.capacityBreakerThreshold;
+  }
+  if (settings.capacityBreakerCooldownMs !== undefined) {
+    capacityBreakerConfig.cooldownMs = settings.capacityBreakerCooldownMs;
+  }
+  if (settings.historyMaxTokens !== undefined) historyConfig.maxTokens = settings.historyMaxTokens;
+  if (settings.historyMaxImages !== undefined) historyImageConfig.maxImages = settings.historyMaxImages;
+  if (settings.historyMaxImageBytes !== undefined) historyImageConfig.maxBytes = settings.historyMaxImageBytes;
+  if (settings.imageMaxDimension !== undefined) imageConfig.maxDimension = settings.imageMaxDimension;
+  if (settings.imageMaxBytes !== undefined) imageConfig.maxBytes = settings.imageMaxBytes;
+  if (settings.imageCaptionModel !== undefined) imageConfig.captionModel = settings.imageCaptionModel.trim();
+  if (settings.toolResultLimit !== undefined) toolResultConfig.limit = settings.toolResultLimit;
+  if (settings.thinkingHistoryFallback !== undefined) {
+    thinkingHistoryConfig.fallback = settings.thinkingHistoryFallback;
+  }
+  if (settings.modelCacheMaxAgeMs !== undefined) modelCacheConfig.maxAgeMs = settings.modelCacheMaxAgeMs;
+  if (settings.maxRequestBytes !== undefined) preflightConfig.maxBytes = settings.maxRequestBytes;
+  if (settings.historySummaries !== undefined) summaryConfig.enabled = settings.historySummaries;
+  if (settings.historySummaryModel !== undefined) summaryConfig.modelId = settings.historySummaryModel.trim();
+  if (settings.regionMap) regionConfig.overrides = { ...settings.regionMap };
+  if (settings.modelFallbacks)
+    fallbackConfig.chains = settings.modelFallbacks.map((chain) => chain.map((id) => id.trim()));
+}
@@ -1,35 +1,35 @@
 // ABOUTME: Core streaming integration for Kiro API requests and responses.
 // ABOUTME: Handles request building, retry logic, event parsing, and token counting.
 
-import { appendFile, mkdir } from "node:fs/promises";
-import { homedir } from "node:os";
-import { join } from "node:path";
 import type {
   Api,
   AssistantMessage,
   AssistantMessageEventStream,
   Context,
-  ImageContent,
   Model,
   SimpleStreamOptions,
   TextContent,
   ThinkingContent,
   ToolCall,
-  ToolResultMessage,
 } from "@earendil-works/pi-ai";
 import * as PiAi from "@earendil-works/pi-ai";
+import { parseStreamingJson } from "@earendil-works/pi-ai";
 import { UniversalEventStreamMarshaller } from "@smithy/core/event-streams";
 import type { Message } from "@smithy/types";
-import { parseBracketToolCalls } from "./bracket-tool-parser.js";
-import { debugEnabled, debugLog, formatSafeError, redactSensitiveText } from "./debug.js";
+import { isOpenBlock, messageText, textBlocks } from "./blocks.js";
 import {
-  buildKiroAdditionalModelRequestFields,
-  getKiroEffortConfig,
-  type KiroAdditionalModelRequestFields,
-} from "./effort.js";
-import { getKiroEndpoints, getKiroRegionFromEndpoint } from "./endpoints.js";
-import { parseKiroEvent } from "./event-parser.js";
-import { addPlaceholderTools, HISTORY_LIMIT, HISTORY_LIMIT_CONTEXT_WINDOW, truncateHistory } from "./history.js";
+  acquireCapacityCircuit,
+  capacityCircuitKey,
+  isCapacityCircuitOpen,
+  logCapacityEvent,
+  recordCapacityFailure,
+  recordCapacitySuccess,
+} from "./capacity.js";
+import { debugEnabled, debugLog, formatSafeError, redactSensitiveText } from "./debug.js";
+import { KiroError, type KiroErrorCode, type KiroErrorInfo } from "./errors.js";
+import { type KiroFollowupPrompt, parseKiroEvent } from "./event-parser.js";
+import { getFallbackModels } from "./fallback.js";
+import { prepareContextImages, replaceImagesForTextModel, textOnlyImageWarning } from "./images.js";
 import { getKiroCliCredentials, getKiroCliCredentialsAllowExpired, refreshViaKiroCli } from "./kiro-cli.js";
 import {
   invalidateKiroProfileArn,
@@ -37,7 +37,16 @@ import {
   resetKiroProfileArnCache,
   resolveKiroProfileArn,
 } from "./management.js";
-import { resolveKiroModel } from "./models.js";
+import { preflightKiroRequest, preflightOverflowMessage } from "./preflight.js";
+import { fetchKiroRuntime, isKiroReplayEnabled } from "./recording.js";
+import {
+  buildKiroRequest,
+  type KiroDryRun,
+  type KiroModelMetadata,
+  type KiroRequest,
+  planKiroRequest,
+  renderKiroRequest,
+} from "./request.js";
 import {
   capacityRetryConfig,
   exponentialBackoff,
@@ -46,52 +55,21 @@ import {
   isNonRetryableBodyError,
   isTooBigError,
   MAX_RETRY_DELAY,
+  retryConfig,
 } from "./retry.js";
+import { historySummariesEnabled, summarizeOmittedHistory } from "./summary.js";
+import { emitKiroMetrics, KiroMetricsRecorder, type KiroRequestKind, type KiroRequestMetrics } from "./telemetry.js";
+import { extractTextToolCalls, type TextToolCall, TextToolCallStream } from "./text-tool-calls.js";
 import { ThinkingTagParser } from "./thinking-parser.js";
 import { countTokens } from "./tokenizer.js";
-import {
-  buildHistory,
-  convertImagesToKiro,
-  convertToolsToKiro,
-  extractImages,
-  getContentText,
-  type KiroHistoryEntry,
-  type KiroImage,
-  type KiroToolResult,
-  type KiroToolSpec,
-  type KiroUserInputMessage,
-  normalizeMessages,
-  sanitizeSurrogates,
-  TOOL_RESULT_LIMIT,
-  truncate,
-} from "./transform.js";
-import { TRUNCATION_NOTICE, wasPreviousResponseTruncated } from "./truncation.js";
-
-const CAPACITY_LOG_DIR = join(homedir(), ".pi", "logs");
-const CAPACITY_LOG_FILE = join(CAPACITY_LOG_DIR, "capacity-retries.log");
+import { hasReasoningContent, rejectReasoningReplay } from "./transform.js";
+import { RESUME_NOTICE } from "./truncation.js";
 
 const eventStreamMarshaller = new UniversalEventStreamMarshaller({
   utf8Encoder: (input: Uint8Array) => new TextDecoder().decode(input),
   utf8Decoder: (input: string) => new TextEncoder().encode(input),
 });
 
-let capacityLogDirCreated = false;
-
-function logCapacityEvent(message: string): void {
-  // Fire-and-forget async logging to avoid blocking the event loop
-  (async () => {
-    try {
-      if (!capacityLogDirCreated) {
-        await mkdir(CAPACITY_LOG_DIR, { recursive: true });
-        capacityLogDirCreated = true;
-      }
-      await appendFile(CAPACITY_LOG_FILE, `${new Date().toISOString()} ${message}\n`);
-    } catch {
-      // best-effort logging, don't break the provider
-    }
-  })();
-}
-
 /** Delay that rejects early if the abort signal fires. */
 function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
   if (signal?.aborted) return Promise.reject(signal.reason);
@@ -108,22 +86,36 @@ function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
   });
 }
 
-interface KiroRequest {
-  conversationState: {
-    chatTriggerType: "MANUAL";
-    agentTaskType: "vibe";
-    conversationId: string;
-    currentMessage: { userInputMessage: KiroUserInputMessage };
-    history?: KiroHistoryEntry[];
-  };
-  additionalModelRequestFields?: KiroAdditionalModelRequestFields;
-  profileArn: string;
-  agentMode?: string;
+/** Assistant message returned by streamKiro, carrying Kiro-specific extras. */
+export interface KiroAssistantMessage extends AssistantMessage {
+  kiroMetrics?: KiroRequestMetrics;
+  /** Suggested next prompts sent by Kiro alongside the response. */
+  followupPrompts?: KiroFollowupPrompt[];
+  /** Model the caller asked for, set when a fallback model answered instead (see `model`). */
+  requestedModel?: string;
+  /** Share of the model's context window in use, as reported by Kiro. Drives `usage.input` when Kiro omits token counts. */
+  contextUsagePercentage?: number;
+  /** Set when the request failed with a classified Kiro error. */
+  kiroError?: KiroErrorInfo;
+  /** Non-fatal problems, such as tool calls dropped for malformed input. */
+  kiroWarnings?: KiroErrorInfo[];
+  /** The request that would have been sent, when dry-run mode is on. */
+  kiroDryRun?: KiroDryRun;
+}
+
+/** Partial output kept across a mid-stream failure so the retry continues it instead of restarting. */
+interface KiroResumeState {
+  text: string;
+  textBlockIndex: number;
+  thinkingParser: ThinkingTagParser | null;
+  totalContent: string;
 }
 interface KiroToolCallState {
   toolUseId: string;
   name: string;
   input: string;
+  /** Index of the live toolCall block in output.content. */
+  contentIndex: number;
 }
 
 let skipProfileResolutionForTests = false;
@@ -135,10 +127,46 @@ export function resetProfileArnCache(resolved = false): void {
   skipProfileResolutionForTests = resolved;
 }
 
-function emitToolCall(
+/** Replayed turns never reach management, so they use the placeholder profile like tests do. */
+function skipProfileResolution(): boolean {
+  return skipProfileResolutionForTests || isKiroReplayEnabled();
+}
+
+/** Open a tool call block as soon as Kiro names the tool, before any input arrives. */
+function startToolCall(
+  toolUseId: string,
+  name: string,
+  output: AssistantMessage,
+  stream: AssistantMessageEventStream,
+): KiroToolCallState {
+  const contentIndex = output.content.length;
+  output.content.push({ type: "toolCall", id: toolUseId, name, arguments: {} });
+  stream.push({ type: "toolcall_start", contentIndex, partial: output });
+  return { toolUseId, name, input: "", contentIndex };
+}
+
+/** Append an input fragment and expose best-effort partially parsed arguments. */
+function appendToolCallInput(
   state: KiroToolCallState,
+  fragment: string,
   output: AssistantMessage,
   stream: AssistantMessageEventStream,
+): void {
+  if (!fragment) return;
+  state.input += fragment;
+  const toolCall = output.content[state.contentIndex] as ToolCall;
+  toolCall.arguments = parseStreamingJson(state.input);
+  stream.push({ type: "toolcall_delta", contentIndex: state.contentIndex, delta: fragment, partial: output });
+}
+
+/**
+ * Validate the complete input at stop. Unparseable input drops the call (see
+ * discardToolCall) and returns false.
+ */
+function finishToolCall(
+  state: KiroToolCallState,
+  output: KiroAssistantMessage,
+  stream: AssistantMessageEventStream,
 ): boolean {
   if (!state.input.trim()) {
     // Kiro API omits the input payload when the model calls a tool with no
@@ -151,35 +179,233 @@ function emitToolCall(
   try {
     args = JSON.parse(state.input) as Record<string, unknown>;
   } catch (e) {
+    const message = `Failed to parse tool input for "${state.name}" (toolUseId: ${state.toolUseId}): ${formatSafeError(e)}`;
     console.warn(
-      `[pi-provider-kiro] Failed to parse tool input for "${state.name}" (toolUseId: ${state.toolUseId}): ${formatSafeError(e)}. Raw input (${state.input.length} chars): ${redactSensitiveText(state.input.substring(0, 200))}`,
+      `[pi-provider-kiro] ${message}. Raw input (${state.input.length} chars): ${redactSensitiveText(state.input.substring(0, 200))}`,
     );
+    output.kiroWarnings = [...(output.kiroWarnings ?? []), new KiroError("malformed-tool-input", message).toJSON()];
+    discardToolCall(state, output, stream);
     return false;
   }
 
-  const contentIndex = output.content.length;
-  const toolCall: ToolCall = { type: "toolCall", id: state.toolUseId, name: state.name, arguments: args };
-  output.content.push(toolCall);
-  stream.push({ type: "toolcall_start", contentIndex, partial: output });
-  stream.push({ type: "toolcall_delta", contentIndex, delta: state.input, partial: output });
-  stream.push({ type: "toolcall_end", contentIndex, toolCall, partial: output });
+  const toolCall = output.content[state.contentIndex] as ToolCall;
+  toolCall.arguments = args;
+  stream.push({ type: "toolcall_end", contentIndex: state.contentIndex, toolCall, partial: output });
   return true;
 }
 
-export function streamKiro(
-  model: Model<Api>,
-  context: Context,
-  options?: SimpleStreamOptions,
-): AssistantMessageEventStream {
+/**
+ * Drop a tool call that will never complete (bad input, interrupted stream).
+ * Its index is ended for listeners, then its block is removed. A call is only
+ * dropped before another block opens, so no announced index moves.
+ */
+function discardToolCall(
+  state: KiroToolCallState,
+  output: AssistantMessage,
+  stream: AssistantMessageEventStream,
+): void {
+  const contentIndex = state.contentIndex;
+  const toolCall = output.content[contentIndex] as ToolCall;
+  stream.push({ type: "toolcall_end", contentIndex, toolCall, partial: output });
+  output.content.splice(contentIndex, 1);
+}
+
+/** Emit a tool call whose complete input is already known (text-embedded fallback calls). */
+function emitToolCall(
+  toolUseId: string,
+  name: string,
+  input: string,
+  output: AssistantMessage,
+  stream: AssistantMessageEventStream,
+): boolean {
+  const state = startToolCall(toolUseId, name, output, stream);
+  appendToolCallInput(state, input, output, stream);
+  return finishToolCall(state, output, stream);
+}
+
+/**
+ * Rewrite an interrupted request as a continuation. The original current
+ * message and the partial answer move into history, and the model is asked to
+ * pick up exactly where it stopped. Tools stay on the current message.
+ */
+function buildResumeRequest(request: KiroRequest, partialText: string): KiroRequest {
+  const { userInputMessageContext, ...interrupted } = request.conversationState.currentMessage.userInputMessage;
+  const { tools, ...interruptedContext } = userInputMessageContext ?? {};
+  return {
+    ...request,
+    conversationState: {
+      ...request.conversationState,
+      currentMessage: {
+        userInputMessage: {
+          content: RESUME_NOTICE,
+          modelId: interrupted.modelId,
+          origin: interrupted.origin,
+          ...(tools ? { userInputMessageContext: { tools } } : {}),
+        },
+      },
+      history: [
+        ...(request.conversationState.history ?? []),
+        {
+          userInputMessage: {
+            ...interrupted,
+            ...(interruptedContext.toolResults ? { userInputMessageContext: interruptedContext } : {}),
+          },
+        },
+        { assistantResponseMessage: { content: partialText } },
+      ],
+    },
+  };
+}
+
+function finishMetrics(
+  metrics: KiroMetricsRecorder,
+  output: KiroAssistantMessage,
+  outcome: KiroRequestMetrics["outcome"],
+): void {
+  output.kiroMetrics = metrics.finish(outcome, output.usage.output);
+  emitKiroMetrics(output.kiroMetrics);
+}
+
+function createEventStream(): AssistantMessageEventStream {
   // pi-ai's barrel re-exports the class as type-only before the runtime class re-export, so
   // a named import of AssistantMessageEventStream resolves to a type. Read it from the
   // namespace import to get the actual constructor. Replaces the removed
   // createAssistantMessageEventStream() factory (gone in @oh-my-pi/pi-ai).
   const StreamCtor = (PiAi as unknown as { AssistantMessageEventStream: new () => AssistantMessageEventStream })
     .AssistantMessageEventStream;
-  const stream = new StreamCtor();
+  return new StreamCtor();
+}
+
+/** Dry-run mode: KIRO_DRY_RUN=1, or `kiroDryRun: true` in the stream options. */
+function isDryRun(options?: SimpleStreamOptions): boolean {
+  return process.env.KIRO_DRY_RUN === "1" || (options as { kiroDryRun?: boolean } | undefined)?.kiroDryRun === true;
+}
+
+/** Answer with the rendered request as pretty-printed JSON instead of calling Kiro. */
+function streamKiroDryRun(
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+): AssistantMessageEventStream {
+  const stream = createEventStream();
+  const output: KiroAssistantMessage = {
+    role: "assistant",
+    content: [],
+    api: model.api,
+    provider: model.provider,
+    model: model.id,
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "stop",
+    timestamp: Date.now(),
+  };
+  (async () => {
+    try {
+      const uploadContext = model.input.includes("image")
+        ? await prepareContextImages(context)
+        : (await replaceImagesForTextModel(context, model)).context;
+      const dryRun = renderKiroRequest(model, uploadContext, options);
+      const text = JSON.stringify(dryRun, null, 2);
+      output.kiroDryRun = dryRun;
+      stream.push({ type: "start", partial: output });
+      output.content.push({ type: "text", text });
+      stream.push({ type: "text_start", contentIndex: 0, partial: output });
+      stream.push({ type: "text_delta", contentIndex: 0, delta: text, partial: output });
+      stream.push({ type: "text_end", contentIndex: 0, content: text, partial: output });
+      stream.push({ type: "done", reason: "stop", message: output });
+    } catch (error) {
+      output.stopReason = "error";
+      output.errorMessage = error instanceof Error ? error.message : String(error);
+      stream.push({ type: "error", reason: "error", error: output });
+    }
+    stream.end();
+  })();
+  return stream;
+}
+
+export function streamKiro(
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+): AssistantMessageEventStream {
+  if (isDryRun(options)) return streamKiroDryRun(model, context, options);
+  const fallbacks = getFallbackModels(model, context);
+  if (fallbacks.length === 0) return streamKiroModel(model, context, options);
+
+  // Capacity errors arrive before any content is streamed, so a failed
+  // attempt can be swallowed and the next model's events forwarded as-is.
+  const stream = createEventStream();
+  (async () => {
+    const candidates = [model, ...fallbacks];
+    for (const [i, candidate] of candidates.entries()) {
+      let exhausted = false;
+      for await (const event of streamKiroModel(candidate, context, options)) {
+        if (
+          event.type === "error" &&
+          (event.error as KiroAssistantMessage).kiroError?.code === "capacity" &&
+          i < candidates.length - 1 &&
+          !options?.signal?.aborted
+        ) {
+          console.warn(
+            `[pi-provider-kiro] ${candidate.id} is out of capacity — falling back to ${candidates[i + 1].id}`,
+          );
+          debugLog("request.fallback", { from: candidate.id, to: candidates[i + 1].id });
+          exhausted = true;
+          break;
+        }
+        if (i > 0 && (event.type === "done" || event.type === "error")) {
+          const message: KiroAssistantMessage = event.type === "done" ? event.message : event.error;
+          message.requestedModel = model.id;
+        }
+        stream.push(event);
+      }
+      if (!exhausted) break;
+    }
+    stream.end();
+  })().catch(() => {
+    try {
+      stream.end();
+    } catch {}
+  });
+  return stream;
+}
+
+/** One complete, non-streaming answer from `model`, for side requests such as summaries and captions. */
+async function completeText(
+  model: Model<Api>,
+  context: Context,
+  accessToken: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const message = await streamKiroModel(model, context, { apiKey: accessToken, signal }, "side").result();
+  if (message.stopReason === "error" || message.stopReason === "aborted") {
+    throw new Error(message.errorMessage ?? `request ${message.stopReason}`);
+  }
+  return message.content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+}
+
+function streamKiroModel(
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+  kind: KiroRequestKind = "turn",
+): AssistantMessageEventStream {
+  const stream = createEventStream();
   (async () => {
-    const output: AssistantMessage = {
+    const metrics = new KiroMetricsRecorder(model.id, kind);
+    let requestId: string | undefined;
+    const kiroError = (code: KiroErrorCode, message: string, status?: number) =>
+      new KiroError(code, message, { status, requestId, retries: metrics.retryHistory() });
+    const output: KiroAssistantMessage = {
       role: "assistant",
       content: [],
       api: model.api,
@@ -198,16 +424,13 @@ export function streamKiro(
     };
     try {
       const initialAccessToken = options?.apiKey;
-      if (!initialAccessToken) throw new Error("Kiro credentials not set. Run /login kiro or install kiro-cli.");
+      if (!initialAccessToken)
+        throw kiroError("auth-expired", "Kiro credentials not set. Run /login kiro or install kiro-cli.");
       let accessToken: string = initialAccessToken;
-      const modelMetadata = model as Model<Api> & {
-        kiroModelId?: string;
-        kiroRegion?: string;
-        kiroProfileArn?: string;
-        additionalModelRequestFieldsSchema?: Record<string, unknown>;
-      };
-      const region = modelMetadata.kiroRegion ?? getKiroRegionFromEndpoint(model.baseUrl) ?? "us-east-1";
-      const endpoint = new URL("generateAssistantResponse", getKiroEndpoints(region).runtime).toString();
+      const modelMetadata = model as KiroModelMetadata;
+      const plan = planKiroRequest(model, context, options);
+      const { region, endpoint, kiroModelId, thinkingEnabled } = plan;
+      metrics.region = region;
       let managementAuth: KiroManagementAuth = { accessToken, region };
 
       const optionProfileArn =
@@ -217,8 +440,7 @@ export function streamKiro(
       const cliProfileArn = cliCreds?.access === accessToken ? cliCreds.profileArn : undefined;
       const initialProfileArn = modelMetadata.kiroProfileArn || optionProfileArn || cliProfileArn;
       let profileArn: string =
-        initialProfileArn ||
-        (skipProfileResolutionForTests ? TEST_PROFILE_ARN : await resolveKiroProfileArn(managementAuth));
+        initialProfileArn || (skipProfileResolution() ? TEST_PROFILE_ARN : await resolveKiroProfileArn(managementAuth));
 
       // Trigger dynamic models cache update in the background if empty or stale
       const { isCacheStale, updateKiroModelsCache } = await import("./models.js");
@@ -230,14 +452,16 @@ export function streamKiro(
         });
       }
 
-      const kiroModelId = resolveKiroModel(model.id, modelMetadata.kiroModelId);
-      const effortConfig = getKiroEffortConfig(modelMetadata, kiroModelId);
-      const additionalModelRequestFields = buildKiroAdditionalModelRequestFields(
-        modelMetadata,
-        kiroModelId,
-        options?.reasoning,
-      );
-      const thinkingEnabled = !!options?.reasoning || model.reasoning;
+      const capacityKey = capacityCircuitKey(region, kiroModelId);
+      const circuit = acquireCapacityCircuit(capacityKey);
+      if (circuit === "open") {
+        throw kiroError(
+          "capacity",
+          `Kiro API error: INSUFFICIENT_MODEL_CAPACITY — circuit open for ${kiroModelId} in ${region}, failing fast`,
+        );
+      }
+      // A half-open probe gets a single attempt so a still-saturated model reopens quickly
+      const capacityRetryLimit = circuit === "half-open" ? 0 : capacityRetryConfig.maxRetries;
       debugLog("request.init", {
         endpoint,
         model: model.id,
@@ -251,166 +475,56 @@ export function streamKiro(
         profileArn,
         sessionId: options?.sessionId,
       });
-      let systemPrompt = context.systemPrompt ?? "";
-      // Kiro's runtime endpoint honors structured effort but only exposes Claude's
-      // user-visible thinking stream when the legacy thinking markers are also
-      // present. Keep both controls: structured fields select effort, while these
-      // markers preserve the <thinking> content consumed by ThinkingTagParser.
-      if (thinkingEnabled && effortConfig?.field !== "reasoning") {
-        const budget =
-          options?.reasoning === "xhigh"
-            ? 50000
-            : options?.reasoning === "high"
-              ? 30000
-              : options?.reasoning === "medium"
-                ? 20000
-                : 10000;
-        systemPrompt = `<thinking_mode>enabled</thinking_mode><max_thinking_length>${budget}</max_thinking_length>${systemPrompt ? `\n${systemPrompt}` : ""}`;
-      }
       let retryCount = 0;
-      const maxRetries = 3;
+      const maxRetries = retryConfig.maxRetries;
       const conversationId = options?.sessionId ?? crypto.randomUUID();
-      while (retryCount <= maxRetries) {
-        if (options?.signal?.aborted) throw options.signal.reason;
-        const effectiveSystemPrompt = systemPrompt;
-        const normalized = normalizeMessages(context.messages);
-        const {
-          history: rawHistory,
-          systemPrepended,
-          currentMsgStartIdx,
-        } = buildHistory(normalized, kiroModelId, effectiveSystemPrompt);
-        // Scale history limit to model context window
-        // HISTORY_LIMIT (850K chars) is sized for 200K token models
-        const dynamicHistoryLimit = Math.floor((model.contextWindow / HISTORY_LIMIT_CONTEXT_WINDOW) * HISTORY_LIMIT);
-        const history = truncateHistory(rawHistory, dynamicHistoryLimit);
-        const toolResultLimit = TOOL_RESULT_LIMIT;
-        const currentMessages = normalized.slice(currentMsgStartIdx);
-        const firstMsg = currentMessages[0];
-        let currentContent = "";
-        const currentToolResults: KiroToolResult[] = [];
-        let currentImages: KiroImage[] | undefined;
-        if (firstMsg?.role === "assistant") {
-          const am = firstMsg as AssistantMessage;
-          let armContent = "";
-          const armToolUses: Array<{ name: string; toolUseId: string; input: Record<string, unknown> }> = [];
-          if (Array.isArray(am.content))
-            for (const b of am.content) {
-              if (b.type === "text") armContent += (b as TextContent).text;
-              else if (b.type === "thinking")
-                armContent = `<thinking>${(b as unknown as { thinking: string }).thinking}</thinking>\n\n${armContent}`;
-              else if (b.type === "toolCall") {
-                const tc = b as ToolCall;
-                armToolUses.push({
-                  name: tc.name,
-                  toolUseId: tc.id,
-                  input:
-                    typeof tc.arguments === "string"
-                      ? JSON.parse(tc.arguments)
-                      : (tc.arguments as Record<string, unknown>),
-                });
-              }
-            }
-          if (armContent || armToolUses.length > 0) {
-            const lastEntryForArm = history[history.length - 1];
-            const prevArm = lastEntryForArm?.assistantResponseMessage;
-            if (history.length > 0 && !lastEntryForArm?.userInputMessage && prevArm) {
-              // Merge into previous assistant message to maintain alternation without synthetic padding
-              prevArm.content += `\n\n${armContent}`;
-              if (armToolUses.length > 0) prevArm.toolUses = [...(prevArm.toolUses || []), ...armToolUses];
-            } else {
-              history.push({
-                assistantResponseMessage: {
-                  content: armContent,
-                  ...(armToolUses.length > 0 ? { toolUses: armToolUses } : {}),
-                },
-              });
-            }
-          }
-          const toolResultImages: ImageContent[] = [];
-          for (let i = 1; i < currentMessages.length; i++) {
-            const m = currentMessages[i];
-            if (m.role === "toolResult") {
-              const trm = m as ToolResultMessage;
-              currentToolResults.push({
-                content: [{ text: truncate(getContentText(m), toolResultLimit) }],
-                status: trm.isError ? "error" : "success",
-                toolUseId: trm.toolCallId,
-              });
-              if (Array.isArray(trm.content))
-                for (const c of trm.content) if (c.type === "image") toolResultImages.push(c as ImageContent);
-            }
-          }
-          if (toolResultImages.length > 0) {
-            const converted = convertImagesToKiro(toolResultImages);
-            currentImages = currentImages ? [...currentImages, ...converted] : converted;
-          }
-          currentContent = currentToolResults.length > 0 ? "Tool results provided." : "Please proceed with the task.";
-        } else if (firstMsg?.role === "toolResult") {
-          const toolResultImages2: ImageContent[] = [];
-          for (const m of currentMessages)
-            if (m.role === "toolResult") {
-              const trm = m as ToolResultMessage;
-              currentToolResults.push({
-                content: [{ text: truncate(getContentText(m), toolResultLimit) }],
-                status: trm.isError ? "error" : "success",
-                toolUseId: trm.toolCallId,
-              });
-              if (Array.isArray(trm.content))
-                for (const c of trm.content) if (c.type === "image") toolResultImages2.push(c as ImageContent);
-            }
-          if (toolResultImages2.length > 0) {
-            const converted = convertImagesToKiro(toolResultImages2);
-            currentImages = currentImages ? [...currentImages, ...converted] : converted;
-          }
-          currentContent = "Tool results provided.";
-        } else if (firstMsg?.role === "user") {
-          currentContent = typeof firstMsg.content === "string" ? firstMsg.content : getContentText(firstMsg);
-          if (effectiveSystemPrompt && !systemPrepended)
-            currentContent = `${effectiveSystemPrompt}\n\n${currentContent}`;
-        }
-        // Prepend truncation notice if the previous assistant response was cut off
-        if (wasPreviousResponseTruncated(context.messages)) {
-          currentContent = `${TRUNCATION_NOTICE}\n\n${currentContent}`;
+      const completeSideRequest = (sideModel: Model<Api>, sideContext: Context) =>
+        completeText(
+          { ...sideModel, kiroProfileArn: profileArn } as Model<Api>,
+          sideContext,
+          accessToken,
+          options?.signal,
+        );
+      let uploadContext: Context;
+      if (model.input.includes("image")) {
+        uploadContext = await prepareContextImages(context);
+      } else {
+        const textOnly = await replaceImagesForTextModel(context, model, completeSideRequest);
+        uploadContext = textOnly.context;
+        if (textOnly.newImages > 0) {
+          output.kiroWarnings = [
+            ...(output.kiroWarnings ?? []),
+            textOnlyImageWarning(model, textOnly.newImages).toJSON(),
+          ];
         }
-        // Always synthesize placeholder specs for tool names referenced in
-        // history, even when context.tools is empty/undefined. Without this,
-        // an "advisor-style" call that inherits a tool-rich conversation but
-        // declares no current tools is rejected by Kiro as "Improperly formed
-        // request" because history references toolUses with no tool catalog.
-        let uimc: { toolResults?: KiroToolResult[]; tools?: KiroToolSpec[] } | undefined;
-        const baseTools = context.tools?.length ? convertToolsToKiro(context.tools) : [];
-        const finalTools = history.length > 0 ? addPlaceholderTools(baseTools, history) : baseTools;
-        if (currentToolResults.length > 0 || finalTools.length > 0) {
-          uimc = {};
-          if (currentToolResults.length > 0) uimc.toolResults = currentToolResults;
-          if (finalTools.length > 0) uimc.tools = finalTools;
+      }
+      const fitRequest = (candidate: KiroRequest): KiroRequest => {
+        const preflight = preflightKiroRequest(candidate, model.contextWindow);
+        if (preflight.overflow) throw kiroError("context-too-large", preflightOverflowMessage(preflight.overflow));
+        if (preflight.droppedHistoryEntries > 0) {
+          debugLog("request.preflight", {
+            droppedHistoryEntries: preflight.droppedHistoryEntries,
+            estimatedTokens: preflight.estimate.tokens,
+            bytes: preflight.estimate.bytes,
+          });
         }
-        if (firstMsg?.role === "user") {
-          const imgs = extractImages(firstMsg);
-          if (imgs.length > 0) currentImages = convertImagesToKiro(imgs as ImageContent[]);
+        return preflight.request;
+      };
+      let resume: KiroResumeState | null = null;
+      // A retried attempt extends the message already started
+      let started = false;
+      // Set after Kiro rejects a request carrying reasoning content, to try once without it
+      let withoutReasoning = false;
+      while (retryCount <= maxRetries) {
+        if (options?.signal?.aborted) throw options.signal.reason;
+        let request = buildKiroRequest(model, uploadContext, plan, conversationId, profileArn, !withoutReasoning);
+        if (resume) request = buildResumeRequest(request, resume.text);
+        request = fitRequest(request);
+        if (historySummariesEnabled()) {
+          await summarizeOmittedHistory(request, model, completeSideRequest, model.contextWindow);
+          // A summary is longer than the marker it replaces; check what is actually sent
+          request = fitRequest(request);
         }
-        // kiro-cli does not enforce alternation — the API accepts
-        // non-alternating history. No synthetic padding needed.
-        const request: KiroRequest = {
-          conversationState: {
-            chatTriggerType: "MANUAL",
-            agentTaskType: "vibe",
-            conversationId,
-            currentMessage: {
-              userInputMessage: {
-                content: sanitizeSurrogates(currentContent),
-                modelId: kiroModelId,
-                origin: "KIRO_CLI",
-                ...(currentImages ? { images: currentImages } : {}),
-                ...(uimc ? { userInputMessageContext: uimc } : {}),
-              },
-            },
-            ...(history.length > 0 ? { history } : {}),
-          },
-          ...(additionalModelRequestFields ? { additionalModelRequestFields } : {}),
-          profileArn,
-          agentMode: "vibe",
-        };
         let response!: Response;
         // Reset per outer iteration — each 403 retry gets a fresh capacity budget
         let capacityRetryCount = 0;
@@ -421,13 +535,17 @@ export function streamKiro(
           debugLog("request.send", {
             attempt: retryCount,
             capacityAttempt: capacityRetryCount,
-            historyLen: history.length,
-            currentContentLen: currentContent.length,
-            hasImages: !!currentImages,
-            toolResultCount: currentToolResults.length,
+            historyLen: request.conversationState.history?.length ?? 0,
+            resumedChars: resume?.text.length ?? 0,
+            currentContentLen: request.conversationState.currentMessage.userInputMessage.content.length,
+            hasImages: !!request.conversationState.currentMessage.userInputMessage.images,
+            toolResultCount:
+              request.conversationState.currentMessage.userInputMessage.userInputMessageContext?.toolResults?.length ??
+              0,
             request,
           });
-          response = await fetch(endpoint, {
+          metrics.startAttempt();
+          response = await fetchKiroRuntime(endpoint, {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
@@ -443,6 +561,8 @@ export function streamKiro(
             body: JSON.stringify(request),
             signal: options?.signal,
           });
+          metrics.markHeaders();
+          requestId = response.headers?.get("x-amzn-requestid") ?? undefined;
           if (!response.ok) {
             let errText = "";
             try {
@@ -452,23 +572,29 @@ export function streamKiro(
             }
             const safeStatusText = redactSensitiveText(response.statusText);
             debugLog("response.error", { status: response.status, statusText: safeStatusText, body: errText });
-            // Retry transient capacity errors with longer backoff
-            if (isCapacityError(errText) && capacityRetryCount < capacityRetryConfig.maxRetries) {
+            if (isCapacityError(errText)) recordCapacityFailure(capacityKey);
+            // Retry transient capacity errors with longer backoff, unless the
+            // shared breaker has opened meanwhile and retrying is pointless
+            if (
+              isCapacityError(errText) &&
+              capacityRetryCount < capacityRetryLimit &&
+              !isCapacityCircuitOpen(capacityKey)
+            ) {
               capacityRetryCount++;
+              metrics.recordRetry("capacity");
               const delayMs = exponentialBackoff(capacityRetryCount - 1, capacityRetryConfig.baseDelayMs, 30_000);
-              const msg = `INSUFFICIENT_MODEL_CAPACITY — retrying in ${delayMs}ms (${capacityRetryCount}/${capacityRetryConfig.maxRetries})`;
+              const msg = `INSUFFICIENT_MODEL_CAPACITY — retrying in ${delayMs}ms (${capacityRetryCount}/${capacityRetryLimit})`;
               console.error(`[pi-provider-kiro] ${msg}`);
               logCapacityEvent(msg);
               await abortableDelay(delayMs, options?.signal);
               continue;
             }
             if (isCapacityError(errText)) {
-              logCapacityEvent(
-                `INSUFFICIENT_MODEL_CAPACITY — exhausted ${capacityRetryConfig.maxRetries} retries, giving up`,
-              );
+              logCapacityEvent(`INSUFFICIENT_MODEL_CAPACITY — gave up after ${capacityRetryCount} retries`);
             }
             if (response.status === 403 && !isCapacityError(errText) && retryCount < maxRetries) {
               retryCount++;
+              metrics.recordRetry("forbidden");
               // Re-read the shared store first in case another process already
               // rotated the token. If it still contains the rejected token,
               // force kiro-cli to refresh before retrying runtime.
@@ -497,43 +623,88 @@ export function streamKiro(
               profileArn =
                 freshCreds?.profileArn ||
                 inheritedDesktopProfileArn ||
-                (skipProfileResolutionForTests ? TEST_PROFILE_ARN : await resolveKiroProfileArn(managementAuth));
+                (skipProfileResolution() ? TEST_PROFILE_ARN : await resolveKiroProfileArn(managementAuth));
               const delayMs = exponentialBackoff(retryCount - 1, 500, MAX_RETRY_DELAY);
               await abortableDelay(delayMs, options?.signal);
               break; // break inner loop, continue outer loop
             }
+            // Reasoning content in history is not accepted everywhere. Rebuild
+            // the turn without it rather than reading this as an overflow; it
+            // is only given up for the session once that request goes through.
+            if (
+              response.status === 400 &&
+              errText.includes("Improperly formed") &&
+              hasReasoningContent(request.conversationState.history ?? []) &&
+              retryCount < maxRetries
+            ) {
+              retryCount++;
+              metrics.recordRetry("reasoningRejected");
+              withoutReasoning = true;
+              debugLog("request.reasoning-rejected", { modelId: model.id });
+              break; // break inner loop, continue outer loop
+            }
             // Avoid pi-coding-agent's outer auto-retry from treating known
             // Kiro quota/capacity body markers as generic retryable 429s.
             // This covers both hard quota (MONTHLY_REQUEST_COUNT) and
             // exhausted capacity retries (INSUFFICIENT_MODEL_CAPACITY).
             if (isNonRetryableBodyError(errText) || isCapacityError(errText)) {
-              throw new Error(`Kiro API error: ${errText || safeStatusText}`);
+              throw kiroError(
+                isCapacityError(errText) ? "capacity" : "quota-exhausted",
+                `Kiro API error: ${errText || safeStatusText}`,
+                response.status,
+              );
             }
             // Format error so pi-ai's isContextOverflow() recognizes it
             if (isTooBigError(response.status, errText)) {
-              throw new Error(`Kiro API error: context_length_exceeded (${response.status} ${errText})`);
+              throw kiroError(
+                "context-too-large",
+                `Kiro API error: context_length_exceeded (${response.status} ${errText})`,
+                response.status,
+              );
             }
-            throw new Error(`Kiro API error: ${response.status} ${safeStatusText} ${errText}`);
+            throw kiroError(
+              response.status === 401 || response.status === 403 ? "auth-expired" : "http-error",
+              `Kiro API error: ${response.status} ${safeStatusText} ${errText}`,
+              response.status,
+            );
           }
           break; // success, break inner loop
         }
+        if (response.ok) recordCapacitySuccess(capacityKey);
+        if (response.ok && withoutReasoning) {
+          // The rejection was the reasoning content, not something else in the request
+          rejectReasoningReplay(conversationId, model.id);
+          withoutReasoning = false;
+        }
         if (capacityRetryCount > 0 && response.ok) {
           logCapacityEvent(`INSUFFICIENT_MODEL_CAPACITY — succeeded after ${capacityRetryCount} retries`);
         }
         // 403 retry: continue outer loop
         if (!response.ok) continue;
-        stream.push({ type: "start", partial: output });
-        if (!response.body) throw new Error("No response body");
+        if (!started) stream.push({ type: "start", partial: output });
+        started = true;
+        if (!response.body) throw kiroError("stream-error", "No response body", response.status);
         const bodyReader = (response.body as unknown as ReadableStream<Uint8Array>).getReader();
-        let totalContent = "";
+        let totalContent: string = resume?.totalContent ?? "";
         let lastContentData = "";
         let usageEvent: { inputTokens?: number; outputTokens?: number } | null = null;
         let receivedContextUsage = false;
-        const thinkingParser = thinkingEnabled ? new ThinkingTagParser(output, stream) : null;
+        // A resumed stream keeps feeding the interrupted text block so the
+        // stitched message has one contiguous block with stable indices.
+        const thinkingParser: ThinkingTagParser | null = resume
+          ? resume.thinkingParser
+          : thinkingEnabled
+            ? new ThinkingTagParser(output, stream)
+            : null;
         let nativeThinkingBlockIndex: number | null = null;
         let nativeThinkingEnded = false;
         const ensureNativeThinkingBlock = (): { block: ThinkingContent; contentIndex: number } => {
-          if (nativeThinkingBlockIndex === null) {
+          // Interleaved thinking after text or a tool call starts a new block
+          if (nativeThinkingEnded || !isOpenBlock(output, nativeThinkingBlockIndex)) {
+            flushToolCall();
+            flushText();
+            endNativeThinking();
+            nativeThinkingEnded = false;
             nativeThinkingBlockIndex = output.content.length;
             output.content.push({ type: "thinking", thinking: "" });
             stream.push({ type: "thinking_start", contentIndex: nativeThinkingBlockIndex, partial: output });
@@ -554,16 +725,47 @@ export function streamKiro(
             partial: output,
           });
         };
-        let textBlockIndex: number | null = null;
+        let textBlockIndex: number | null = resume && !resume.thinkingParser ? resume.textBlockIndex : null;
+        resume = null;
         let emittedToolCalls = 0;
         let sawAnyToolCalls = false;
+        const appendPlainText = (text: string) => {
+          if (!isOpenBlock(output, textBlockIndex)) {
+            // Text resuming after a tool call gets its own block; end the previous one
+            if (textBlockIndex !== null) {
+              stream.push({
+                type: "text_end",
+                contentIndex: textBlockIndex,
+                content: (output.content[textBlockIndex] as TextContent).text,
+                partial: output,
+              });
+            }
+            textBlockIndex = output.content.length;
+            output.content.push({ type: "text", text: "" });
+            stream.push({ type: "text_start", contentIndex: textBlockIndex, partial: output });
+          }
+          (output.content[textBlockIndex] as TextContent).text += text;
+          stream.push({ type: "text_delta", contentIndex: textBlockIndex, delta: text, partial: output });
+        };
+        // Tool calls written as text are picked out as they stream, so the
+        // caller sees tool call events rather than the markup
+        const textToolCalls = new TextToolCallStream(context.tools, (call) => {
+          sawAnyToolCalls = true;
+          if (emitToolCall(call.toolUseId, call.name, JSON.stringify(call.arguments), output, stream)) {
+            emittedToolCalls++;
+          }
+        });
+        thinkingParser?.setTextToolCalls(textToolCalls);
+        const flushText = () => {
+          if (thinkingParser) thinkingParser.flushText();
+          else textToolCalls.flush(appendPlainText);
+        };
         let currentToolCall: KiroToolCallState | null = null;
         const flushToolCall = () => {
           if (!currentToolCall) return;
-          if (emitToolCall(currentToolCall, output, stream)) emittedToolCalls++;
+          if (finishToolCall(currentToolCall, output, stream)) emittedToolCalls++;
           currentToolCall = null;
         };
-        const IDLE_TIMEOUT = 300_000;
         let idleTimer: ReturnType<typeof setTimeout> | null = null;
         let idleCancelled = false;
         const resetIdle = () => {
@@ -571,7 +773,7 @@ export function streamKiro(
           idleTimer = setTimeout(() => {
             idleCancelled = true;
             void bodyReader.cancel().catch(() => {});
-          }, IDLE_TIMEOUT);
+          }, retryConfig.idleTimeoutMs);
         };
         let gotFirstToken = false;
         let firstTokenTimedOut = false;
@@ -643,14 +845,19 @@ export function streamKiro(
           if (debugEnabled()) debugLog("stream.events", [event]);
           switch (event.type) {
             case "contextUsage": {
+              // Kiro rarely reports inputTokens; the share of the context window it
+              // reports here is the only input size pi's footer and compaction can use.
               const pct = event.data.contextUsagePercentage;
+              output.contextUsagePercentage = pct;
               output.usage.input = Math.round((pct / 100) * model.contextWindow);
+              // Legacy untyped location, kept for extensions that already read it
               (output.usage as unknown as Record<string, unknown>).contextPercent = pct;
               receivedContextUsage = true;
               break;
             }
             case "thinkingText": {
               if (!thinkingEnabled) break;
+              metrics.markFirstThinking();
               const { block, contentIndex } = ensureNativeThinkingBlock();
               block.thinking += event.data;
               totalContent += event.data;
@@ -669,38 +876,52 @@ export function streamKiro(
               endNativeThinking();
               break;
             }
+            case "thinkingRedacted": {
+              if (!thinkingEnabled) break;
+              // The encrypted payload rides in thinkingSignature, as pi-ai's other providers store it
+              const { block } = ensureNativeThinkingBlock();
+              block.redacted = true;
+              block.thinkingSignature = event.data;
+              endNativeThinking();
+              break;
+            }
             case "content": {
               endNativeThinking();
+              // A tool call's input is over once other content arrives
+              flushToolCall();
               if (event.data === lastContentData) continue;
               lastContentData = event.data;
               totalContent += event.data;
+              metrics.markFirstToken();
               if (thinkingParser) {
                 thinkingParser.processChunk(event.data);
-              } else {
-                if (textBlockIndex === null) {
-                  textBlockIndex = output.content.length;
-                  output.content.push({ type: "text", text: "" });
-                  stream.push({ type: "text_start", contentIndex: textBlockIndex, partial: output });
+                if (!metrics.hasThinking() && output.content.some((b) => b.type === "thinking")) {
+                  metrics.markFirstThinking();
                 }
-                (output.content[textBlockIndex] as TextContent).text += event.data;
-                stream.push({ type: "text_delta", contentIndex: textBlockIndex, delta: event.data, partial: output });
+              } else {
+                textToolCalls.push(event.data, appendPlainText);
               }
               break;
             }
             case "toolUse": {
               const tc = event.data;
               sawAnyToolCalls = true;
+              metrics.markFirstToken();
               if (!currentToolCall || currentToolCall.toolUseId !== tc.toolUseId) {
+                endNativeThinking();
+                // The model calls tools natively; text from here on is just text
+                flushText();
+                textToolCalls.stop();
                 flushToolCall();
-                currentToolCall = { toolUseId: tc.toolUseId, name: tc.name, input: "" };
+                currentToolCall = startToolCall(tc.toolUseId, tc.name, output, stream);
               }
-              currentToolCall.input += tc.input || "";
+              appendToolCallInput(currentToolCall, tc.input, output, stream);
               if (tc.input) totalContent += tc.input;
               if (tc.stop) flushToolCall();
               break;
             }
             case "toolUseInput": {
-              if (currentToolCall) currentToolCall.input += event.data.input || "";
+              if (currentToolCall) appendToolCallInput(currentToolCall, event.data.input, output, stream);
               if (event.data.input) totalContent += event.data.input;
               break;
             }
@@ -718,64 +939,101 @@ export function streamKiro(
               void bodyReader.cancel().catch(() => {});
               break;
             }
-            // followupPrompt events are intentionally ignored
+            case "followupPrompt": {
+              // A retried attempt may resend the same suggestion
+              const prompt = event.data;
+              if (prompt.content && !output.followupPrompts?.some((p) => p.content === prompt.content)) {
+                output.followupPrompts = [...(output.followupPrompts ?? []), prompt];
+              }
+              break;
+            }
           }
           if (streamError) break;
         }
         if (idleTimer) clearTimeout(idleTimer);
         if (firstTokenTimedOut || idleCancelled || streamError) {
-          // Timed out or received error mid-stream: retry with backoff
+          // Timed out or received error mid-stream: retry with backoff. When
+          // visible text already streamed and no tool call completed, keep it
+          // and ask the model to continue rather than regenerating it. Any
+          // other streamed content cannot be taken back, so nothing is
+          // regenerated on top of it and the turn fails instead.
+          // A tool call cut off mid-input can never complete; drop its block.
+          if (currentToolCall) {
+            discardToolCall(currentToolCall, output, stream);
+            currentToolCall = null;
+          }
+          endNativeThinking();
+          // An interrupted thinking segment ends here, so a continuation starts in text
+          if (thinkingParser) thinkingParser.finalize();
+          else flushText();
+          const partialTextBlockIndex: number | null = thinkingParser?.getTextBlockIndex() ?? textBlockIndex;
+          const partialText: string = partialTextBlockIndex !== null ? messageText(output) : "";
+          const canResume = !!partialText && emittedToolCalls === 0 && partialTextBlockIndex !== null;
+          if (!canResume && output.content.length > 0) {
+            throw kiroError(
+              "stream-error",
+              `Kiro API stream interrupted after part of the response was sent: ${streamError ?? `${firstTokenTimedOut ? "first token" : "idle"} timeout`}`,
+            );
+          }
           if (retryCount < maxRetries) {
             retryCount++;
+            metrics.recordRetry(firstTokenTimedOut ? "firstToken" : idleCancelled ? "idle" : "streamError");
+            if (canResume) {
+              metrics.keepStreamingTime();
+              resume = { text: partialText, textBlockIndex: partialTextBlockIndex, thinkingParser, totalContent };
+              debugLog("stream.resume", {
+                reason: firstTokenTimedOut ? "first-token" : idleCancelled ? "idle" : "stream-error",
+                streamError,
+                partialChars: partialText.length,
+              });
+            }
             const delayMs = exponentialBackoff(retryCount - 1, 1000, MAX_RETRY_DELAY);
             await abortableDelay(delayMs, options?.signal);
             continue;
           }
           if (streamError) {
-            throw new Error(`Kiro API stream error after max retries: ${streamError}`);
+            throw kiroError("stream-error", `Kiro API stream error after max retries: ${streamError}`);
           }
-          throw new Error(`Kiro API error: ${firstTokenTimedOut ? "first token" : "idle"} timeout after max retries`);
+          throw kiroError(
+            firstTokenTimedOut ? "first-token-timeout" : "idle-timeout",
+            `Kiro API error: ${firstTokenTimedOut ? "first token" : "idle"} timeout after max retries`,
+          );
         }
-        if (currentToolCall && emitToolCall(currentToolCall, output, stream)) {
+        if (currentToolCall && finishToolCall(currentToolCall, output, stream)) {
           emittedToolCalls++;
         }
         endNativeThinking();
         if (thinkingParser) {
           thinkingParser.finalize();
           textBlockIndex = thinkingParser.getTextBlockIndex();
+        } else {
+          textToolCalls.flush(appendPlainText);
         }
-        // Fallback: extract bracket-style tool calls from content if no native tool calls
-        if (!sawAnyToolCalls && textBlockIndex !== null) {
-          const textBlock = output.content[textBlockIndex] as TextContent;
-          const bracketResult = parseBracketToolCalls(textBlock.text);
-          if (bracketResult.toolCalls.length > 0) {
-            sawAnyToolCalls = true;
-            textBlock.text = bracketResult.cleanedText;
-            for (const btc of bracketResult.toolCalls) {
-              if (
-                emitToolCall(
-                  {
-                    toolUseId: btc.toolUseId,
-                    name: btc.name,
-                    input: JSON.stringify(btc.arguments),
-                  },
-                  output,
-                  stream,
-                )
-              ) {
-                emittedToolCalls++;
-              }
+        // Fallback: extract tool calls written as text that streaming
+        // detection let through (held text past its cap, or grammars without
+        // `progress`), when the model sent no tool calls at all
+        if (!sawAnyToolCalls) {
+          const textCalls: TextToolCall[] = [];
+          for (const textBlock of textBlocks(output)) {
+            const extracted = extractTextToolCalls(textBlock.text, context.tools);
+            if (extracted.toolCalls.length === 0) continue;
+            textBlock.text = extracted.cleanedText;
+            textCalls.push(...extracted.toolCalls);
+          }
+          if (textCalls.length > 0) sawAnyToolCalls = true;
+          for (const call of textCalls) {
+            if (emitToolCall(call.toolUseId, call.name, JSON.stringify(call.arguments), output, stream)) {
+              emittedToolCalls++;
             }
           }
         }
-        // Strip echo noise: when tool calls are present and the text content
+        // Strip echo noise: when tool calls are present and a text block
         // is just "." or similar short echo from history padding, remove it.
         // This prevents the echo from accumulating in conversation history
         // and reinforcing the pattern in future turns.
-        if (emittedToolCalls > 0 && textBlockIndex !== null) {
-          const textBlock = output.content[textBlockIndex] as TextContent;
-          if (/^\s*(\.+|continue)\s*$/i.test(textBlock.text)) {
-            textBlock.text = "";
+        if (emittedToolCalls > 0) {
+          for (const textBlock of textBlocks(output)) {
+            if (/^\s*(\.+|continue)\s*$/i.test(textBlock.text)) textBlock.text = "";
           }
         }
         if (textBlockIndex !== null)
@@ -817,18 +1075,20 @@ export function streamKiro(
         // input), don't retry — the API did respond, it just sent malformed
         // tool calls. Retrying would likely produce the same result. The
         // stopReason fix below prevents the agent loop stall.
-        const hasText = textBlockIndex !== null && (output.content[textBlockIndex] as TextContent).text.length > 0;
-        const responseText = hasText ? (output.content[textBlockIndex as number] as TextContent).text : "";
+        const responseText = messageText(output);
+        const hasText = responseText.length > 0;
         const isEchoLoop = hasText && !sawAnyToolCalls && /^\s*(continue|\.+)\s*$/i.test(responseText);
         if ((!hasText && !sawAnyToolCalls) || isEchoLoop) {
           if (retryCount < maxRetries) {
             retryCount++;
+            metrics.recordRetry(isEchoLoop ? "echo" : "empty");
             const delayMs = exponentialBackoff(retryCount - 1, 1000, MAX_RETRY_DELAY);
             console.warn(
               `[pi-provider-kiro] ${isEchoLoop ? 'Echo loop detected (model responded with just "Continue")' : "Empty response (no text, no tool calls)"} — retrying (${retryCount}/${maxRetries})`,
             );
             // Reset output content for the retry
             output.content = [];
+            delete output.followupPrompts;
             textBlockIndex = null;
             await abortableDelay(delayMs, options?.signal);
             continue;
@@ -836,7 +1096,7 @@ export function streamKiro(
           if (isEchoLoop) {
             // After max retries, strip the echo text to prevent the agent
             // loop from interpreting "Continue" as a continuation signal.
-            (output.content[textBlockIndex as number] as TextContent).text = "";
+            for (const textBlock of textBlocks(output)) textBlock.text = "";
             console.warn(
               `[pi-provider-kiro] Echo loop persisted after ${maxRetries} retries — stripping "Continue" response`,
             );
@@ -855,12 +1115,13 @@ export function streamKiro(
         } else {
           output.stopReason = emittedToolCalls > 0 ? "toolUse" : "stop";
         }
+        finishMetrics(metrics, output, output.stopReason as "stop" | "length" | "toolUse");
         stream.push({ type: "done", reason: output.stopReason as "stop" | "toolUse", message: output });
         debugLog("response.done", {
           stopReason: output.stopReason,
           emittedToolCalls,
           sawAnyToolCalls,
-          textLen: textBlockIndex !== null ? (output.content[textBlockIndex] as TextContent).text.length : 0,
+          textLen: messageText(output).length,
           usage: output.usage,
           content: output.content,
         });
@@ -870,7 +1131,9 @@ export function streamKiro(
     } catch (error) {
       output.stopReason = options?.signal?.aborted ? "aborted" : "error";
       output.errorMessage = formatSafeError(error);
+      if (error instanceof KiroError) output.kiroError = error.toJSON();
       debugLog("response.caught", { stopReason: output.stopReason, error: output.errorMessage });
+      finishMetrics(metrics, output, output.stopReason);
       stream.push({ type: "error", reason: output.stopReason, error: output });
       stream.end();
     }
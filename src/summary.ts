@@ -0,0 +1,164 @@
+// ABOUTME: Opt-in summaries of the history that truncation drops, written by a cheap Kiro model.
+// ABOUTME: Cached per session and extended incrementally as the dropped span grows.
+
+import { createHash } from "node:crypto";
+import type { Api, Context, Model } from "@earendil-works/pi-ai";
+import { debugLog, formatSafeError } from "./debug.js";
+import { findRoutedModel } from "./fallback.js";
+import { getOmission } from "./history.js";
+import { estimateKiroRequest } from "./preflight.js";
+import type { KiroRequest } from "./request.js";
+import { type KiroHistoryEntry, truncate } from "./transform.js";
+
+export const DEFAULT_SUMMARY_MODEL = "claude-haiku-4-5";
+
+// Off unless the user opts in; KIRO_SUMMARIZE_HISTORY=1 also turns it on
+export const summaryConfig: { enabled: boolean; modelId: string } = {
+  enabled: false,
+  modelId: DEFAULT_SUMMARY_MODEL,
+};
+
+// Characters kept from each entry, and from the whole transcript sent for summarizing
+const ENTRY_CHARS = 4000;
+const TRANSCRIPT_CHARS = 400_000;
+const SUMMARY_CACHE_SIZE = 64;
+
+const SUMMARY_PROMPT = [
+  "You summarize the earlier part of a conversation between a user and a coding assistant.",
+  "The assistant will continue the conversation with your summary in place of the turns it covers.",
+  "Keep the user's goals, decisions made, files and commands involved, and questions still open.",
+  "Write at most 300 words of plain prose. Reply with the summary only.",
+].join(" ");
+
+/** Sends a summarization context to the summary model and returns its reply text. */
+export type SummaryCompletion = (model: Model<Api>, context: Context) => Promise<string>;
+
+interface CachedSummary {
+  entryHashes: string[];
+  summary: string;
+}
+
+const summaryCache = new Map<string, CachedSummary>();
+
+export function historySummariesEnabled(): boolean {
+  return process.env.KIRO_SUMMARIZE_HISTORY === "1" || summaryConfig.enabled;
+}
+
+/** Forget cached summaries (tests). */
+export function resetSummaryCache(): void {
+  summaryCache.clear();
+}
+
+function hashEntry(entry: KiroHistoryEntry): string {
+  return createHash("sha1").update(JSON.stringify(entry)).digest("base64");
+}
+
+function renderEntry(entry: KiroHistoryEntry): string {
+  const lines: string[] = [];
+  const user = entry.userInputMessage;
+  if (user) {
+    for (const result of user.userInputMessageContext?.toolResults ?? []) {
+      lines.push(`Tool result (${result.status}): ${result.content.map((c) => c.text).join("\n")}`);
+    }
+    if (user.content) lines.push(`User: ${user.content}`);
+  }
+  const assistant = entry.assistantResponseMessage;
+  if (assistant) {
+    if (assistant.content) lines.push(`Assistant: ${assistant.content}`);
+    for (const use of assistant.toolUses ?? []) lines.push(`Tool call ${use.name}: ${JSON.stringify(use.input)}`);
+  }
+  return truncate(lines.join("\n"), ENTRY_CHARS);
+}
+
+function renderTranscript(entries: KiroHistoryEntry[]): string {
+  const transcript = entries.map(renderEntry).join("\n\n");
+  // The most recent turns matter most to what comes next
+  return transcript.length > TRANSCRIPT_CHARS ? transcript.slice(-TRANSCRIPT_CHARS) : transcript;
+}
+
+function summaryContext(entries: KiroHistoryEntry[], previous?: CachedSummary): Context {
+  const text = previous
+    ? `Summary so far:\n${previous.summary}\n\nWhat happened next:\n${renderTranscript(entries.slice(previous.entryHashes.length))}`
+    : renderTranscript(entries);
+  return {
+    systemPrompt: SUMMARY_PROMPT,
+    messages: [{ role: "user", content: text, timestamp: Date.now() }],
+  };
+}
+
+async function summarize(
+  conversationId: string,
+  entries: KiroHistoryEntry[],
+  model: Model<Api>,
+  complete: SummaryCompletion,
+): Promise<string | undefined> {
+  const entryHashes = entries.map(hashEntry);
+  // Dropped spans grow from the front of history, so their first entry identifies them
+  const key = `${conversationId}:${entryHashes[0]}`;
+  const cached = summaryCache.get(key);
+  if (cached && cached.entryHashes.length === entryHashes.length) {
+    summaryCache.delete(key);
+    summaryCache.set(key, cached);
+    return cached.summary;
+  }
+  // A span that only grew since last time is summarized from the old summary plus the new turns
+  const previous =
+    cached && cached.entryHashes.length < entryHashes.length && cached.entryHashes.every((h, i) => h === entryHashes[i])
+      ? cached
+      : undefined;
+  const summary = (await complete(model, summaryContext(entries, previous))).trim();
+  if (!summary) return undefined;
+  summaryCache.delete(key);
+  summaryCache.set(key, { entryHashes, summary });
+  if (summaryCache.size > SUMMARY_CACHE_SIZE) {
+    const oldest = summaryCache.keys().next().value;
+    if (oldest !== undefined) summaryCache.delete(oldest);
+  }
+  return summary;
+}
+
+/**
+ * Replace each "[N earlier turns omitted]" marker in `request` with a summary
+ * of the turns it stands for. A marker whose summary fails, or would take the
+ * request past `maxTokens`, stays as it is.
+ */
+export async function summarizeOmittedHistory(
+  request: KiroRequest,
+  model: Model<Api>,
+  complete: SummaryCompletion,
+  maxTokens = Number.POSITIVE_INFINITY,
+): Promise<void> {
+  const history = request.conversationState.history ?? [];
+  const markers = history.filter((entry) => getOmission(entry));
+  if (markers.length === 0) return;
+  const summaryModel = findRoutedModel(summaryConfig.modelId, model);
+  if (!summaryModel) {
+    debugLog("history.summary.unavailable", { modelId: summaryConfig.modelId });
+    return;
+  }
+  for (const marker of markers) {
+    const omission = getOmission(marker);
+    const response = marker.assistantResponseMessage;
+    if (!omission || !response) continue;
+    try {
+      const summary = await summarize(
+        request.conversationState.conversationId,
+        omission.omitted,
+        summaryModel,
+        complete,
+      );
+      if (!summary) continue;
+      const marked = response.content;
+      response.content = `[Summary of ${omission.turns} earlier ${omission.turns === 1 ? "turn" : "turns"}]\n${summary}`;
+      const { tokens } = estimateKiroRequest(request);
+      if (tokens > maxTokens) {
+        response.content = marked;
+        debugLog("history.summary.too-large", { turns: omission.turns, chars: summary.length, tokens, maxTokens });
+        continue;
+      }
+      debugLog("history.summary", { turns: omission.turns, entries: omission.omitted.length, chars: summary.length });
+    } catch (error) {
+      console.warn(`[pi-provider-kiro] Could not summarize omitted history: ${formatSafeError(error)}`);
+    }
+  }
+}
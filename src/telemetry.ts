@@ -0,0 +1,154 @@
+// ABOUTME: Per-request latency, throughput, and retry telemetry for Kiro streams.
+// ABOUTME: Metrics are attached to the final assistant message and fanned out to registered sinks.
+
+import { debugLog, formatSafeError } from "./debug.js";
+
+export type KiroRetryCause =
+  | "forbidden"
+  | "capacity"
+  | "reasoningRejected"
+  | "firstToken"
+  | "idle"
+  | "streamError"
+  | "empty"
+  | "echo";
+
+/** "turn" for the user's own request; "side" for requests the provider makes for it, such as summaries and captions. */
+export type KiroRequestKind = "turn" | "side";
+
+export interface KiroRequestMetrics {
+  model: string;
+  kind: KiroRequestKind;
+  region?: string;
+  /** Epoch milliseconds when streamKiro was called. */
+  startedAt: number;
+  /** Number of HTTP requests sent, including retries. */
+  attempts: number;
+  /** Latencies are measured from the start of the attempt that produced the final message. */
+  timeToHeadersMs?: number;
+  timeToFirstTokenMs?: number;
+  timeToFirstThinkingMs?: number;
+  outputTokens: number;
+  /**
+   * Output tokens per second while streaming: from the first token to the end
+   * of each attempt whose output the final message keeps.
+   */
+  tokensPerSecond?: number;
+  retries: Record<KiroRetryCause, number>;
+  /** Wall time across every attempt, backoff delays included. */
+  totalMs: number;
+  outcome: "stop" | "length" | "toolUse" | "error" | "aborted";
+}
+
+export type KiroMetricsSink = (metrics: KiroRequestMetrics) => void;
+
+const sinks = new Set<KiroMetricsSink>();
+
+/** Register a sink that receives metrics for every finished request. Returns an unregister function. */
+export function registerKiroMetricsSink(sink: KiroMetricsSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+export class KiroMetricsRecorder {
+  private readonly startedAt = Date.now();
+  private attempts = 0;
+  private attemptStart = this.startedAt;
+  private headersAt?: number;
+  private firstTokenAt?: number;
+  private firstThinkingAt?: number;
+  // Streaming time of earlier attempts whose output the final message kept
+  private keptStreamingMs = 0;
+  private readonly retries: Record<KiroRetryCause, number> = {
+    forbidden: 0,
+    capacity: 0,
+    reasoningRejected: 0,
+    firstToken: 0,
+    idle: 0,
+    streamError: 0,
+    empty: 0,
+    echo: 0,
+  };
+  private readonly retryOrder: KiroRetryCause[] = [];
+  region?: string;
+
+  constructor(
+    private readonly model: string,
+    private readonly kind: KiroRequestKind = "turn",
+  ) {}
+
+  startAttempt(): void {
+    this.attempts++;
+    this.attemptStart = Date.now();
+    this.headersAt = undefined;
+    this.firstTokenAt = undefined;
+    this.firstThinkingAt = undefined;
+  }
+
+  markHeaders(): void {
+    this.headersAt = Date.now();
+  }
+
+  markFirstToken(): void {
+    this.firstTokenAt ??= Date.now();
+  }
+
+  markFirstThinking(): void {
+    this.firstThinkingAt ??= Date.now();
+  }
+
+  hasThinking(): boolean {
+    return this.firstThinkingAt !== undefined;
+  }
+
+  /** The current attempt's output stays in the message (a resumed response), so its streaming time counts. */
+  keepStreamingTime(): void {
+    if (this.firstTokenAt !== undefined) this.keptStreamingMs += Date.now() - this.firstTokenAt;
+  }
+
+  recordRetry(cause: KiroRetryCause): void {
+    this.retries[cause]++;
+    this.retryOrder.push(cause);
+  }
+
+  /** Retry causes in the order they happened. */
+  retryHistory(): KiroRetryCause[] {
+    return [...this.retryOrder];
+  }
+
+  finish(outcome: KiroRequestMetrics["outcome"], outputTokens: number): KiroRequestMetrics {
+    const now = Date.now();
+    const since = (at: number | undefined) => (at === undefined ? undefined : at - this.attemptStart);
+    const streamingMs = this.keptStreamingMs + (this.firstTokenAt === undefined ? 0 : now - this.firstTokenAt);
+    const streamingSeconds = streamingMs / 1000;
+    return {
+      model: this.model,
+      kind: this.kind,
+      ...(this.region ? { region: this.region } : {}),
+      startedAt: this.startedAt,
+      attempts: this.attempts,
+      timeToHeadersMs: since(this.headersAt),
+      timeToFirstTokenMs: since(this.firstTokenAt),
+      timeToFirstThinkingMs: since(this.firstThinkingAt),
+      outputTokens,
+      tokensPerSecond: streamingSeconds > 0 ? outputTokens / streamingSeconds : undefined,
+      retries: { ...this.retries },
+      totalMs: now - this.startedAt,
+      outcome,
+    };
+  }
+}
+
+/** Deliver metrics to every sink. A failing sink never breaks the provider or other sinks. */
+export function emitKiroMetrics(metrics: KiroRequestMetrics): void {
+  debugLog("request.metrics", metrics);
+  for (const sink of sinks) {
+    try {
+      sink(metrics);
+    } catch (error) {
+      console.warn(`[pi-provider-kiro] Metrics sink failed: ${formatSafeError(error)}`);
+    }
+  }
+}
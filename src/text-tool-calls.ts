@@ -0,0 +1,436 @@
+// ABOUTME: Extracts tool calls that models wrote as plain text instead of native tool-use events.
+// ABOUTME: Several grammars find candidates; each is scored and must match a declared tool and its schema.
+// ABOUTME: TextToolCallStream runs the grammars while text streams, holding back markup until it resolves.
+
+import { type Tool, type ToolCall, validateToolArguments } from "@earendil-works/pi-ai";
+import { findBracketToolCalls, findJsonEnd } from "./bracket-tool-parser.js";
+import { debugLog } from "./debug.js";
+
+/** A candidate call found by a grammar, before it is checked against the declared tools. */
+export interface TextToolCallMatch {
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Span [start, end) of the markup, removed from the text when the call is accepted. */
+  start: number;
+  end: number;
+  /** How sure the grammar is that this is a call rather than prose or an example, from 0 to 1. */
+  confidence: number;
+}
+
+/** How far streamed text has got towards a call: it may still become one, or its markup has closed. */
+export type TextToolCallProgress = "partial" | "complete";
+
+/** One way of writing a tool call in text. `tools` lets a grammar type its arguments. */
+export interface TextToolCallGrammar {
+  name: string;
+  find(text: string, tools: Tool[]): TextToolCallMatch[];
+  /**
+   * How `text` is progressing towards a call that starts where it does, with
+   * `lineStart` when only whitespace precedes it on its line; undefined when no
+   * call can start there. Streaming skips text in ``` fences, where calls are
+   * taken for examples. Grammars without it only run on the finished response.
+   */
+  progress?(text: string, lineStart: boolean): TextToolCallProgress | undefined;
+}
+
+export interface TextToolCall {
+  toolUseId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  grammar: string;
+  confidence: number;
+}
+
+export interface TextToolCallResult {
+  toolCalls: TextToolCall[];
+  cleanedText: string;
+}
+
+/** Calls scoring below this stay in the text. */
+export const TEXT_TOOL_CALL_MIN_CONFIDENCE = 0.5;
+
+// Markup inside a ``` fence is more likely an example than a call
+const FENCED_FACTOR = 0.5;
+// Arguments the schema does not declare suggest the model meant something else
+const UNDECLARED_ARGUMENT_FACTOR = 0.7;
+
+function isInsideFence(text: string, index: number): boolean {
+  return (text.slice(0, index).match(/```/g)?.length ?? 0) % 2 === 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A pattern matching any prefix of `parts` in sequence: literal parts may be
+ * cut anywhere, pattern parts only between their matches.
+ */
+function prefixPattern(parts: Array<string | RegExp>): RegExp {
+  const tokens = parts.flatMap((part) =>
+    typeof part === "string" ? [...part].map((c) => c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")) : [`(?:${part.source})`],
+  );
+  return new RegExp(`^(?:${tokens.reduceRight((rest, token) => `${token}(?:${rest})?`, "")})?$`);
+}
+
+const BRACKET_HEAD = /^\[Called\s+[\w-]+\s+with\s+args:\s*/;
+const BRACKET_HEAD_PREFIX = prefixPattern(["[Called", /\s+/, /[\w-]+/, /\s+/, "with", /\s+/, "args:"]);
+
+/** [Called name with args: {...}], the form Kiro's own transcripts use. */
+const bracketGrammar: TextToolCallGrammar = {
+  name: "bracket",
+  find: (text) =>
+    findBracketToolCalls(text).map((match) => ({
+      ...match,
+      confidence: isInsideFence(text, match.start) ? 0.9 * FENCED_FACTOR : 0.9,
+    })),
+  progress(text) {
+    const head = BRACKET_HEAD.exec(text);
+    if (!head) return BRACKET_HEAD_PREFIX.test(text) ? "partial" : undefined;
+    const braceIdx = head[0].length;
+    if (braceIdx === text.length) return "partial";
+    if (text[braceIdx] !== "{") return undefined;
+    const jsonEnd = findJsonEnd(text, braceIdx);
+    if (jsonEnd === -1) return "partial";
+    const close = /^\s*(\])?/.exec(text.slice(jsonEnd + 1));
+    if (close?.[1]) return "complete";
+    return close?.[0].length === text.length - jsonEnd - 1 ? "partial" : undefined;
+  },
+};
+
+const FUNCTION_CALLS_PATTERN = /<(\w+:)?function_calls>([\s\S]*?)<\/\1?function_calls>/g;
+const INVOKE_PATTERN = /<(\w+:)?invoke\s+name="([^"]+)"\s*>([\s\S]*?)<\/\1?invoke>/g;
+const PARAMETER_PATTERN = /<(\w+:)?parameter\s+name="([^"]+)"\s*>([\s\S]*?)<\/\1?parameter>/g;
+const FUNCTION_CALLS_OPEN = /^<(\w+:)?function_calls>/;
+// "<" and a word may yet become the opening tag: the word could be a namespace
+const FUNCTION_CALLS_OPEN_PREFIX = /^<(?:(\w+):)?(\w*)$/;
+
+/** Parameters arrive as text; those the schema does not type as strings are parsed as JSON. */
+function parseParameter(tool: Tool | undefined, name: string, raw: string): unknown {
+  const properties = (tool?.parameters as { properties?: Record<string, { type?: unknown }> } | undefined)?.properties;
+  const type = properties?.[name]?.type;
+  if (type === undefined || type === "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** <function_calls><invoke name="..."><parameter name="...">...</parameter></invoke></function_calls> */
+const xmlGrammar: TextToolCallGrammar = {
+  name: "xml",
+  find(text, tools) {
+    const matches: TextToolCallMatch[] = [];
+    for (const block of text.matchAll(FUNCTION_CALLS_PATTERN)) {
+      const blockStart = block.index;
+      const bodyStart = blockStart + block[0].indexOf(">") + 1;
+      const invokes = [...block[2].matchAll(INVOKE_PATTERN)];
+      const confidence = isInsideFence(text, blockStart) ? 0.95 * FENCED_FACTOR : 0.95;
+      invokes.forEach((invoke, i) => {
+        const name = invoke[2];
+        const tool = tools.find((t) => t.name === name);
+        const args: Record<string, unknown> = {};
+        for (const parameter of invoke[3].matchAll(PARAMETER_PATTERN)) {
+          args[parameter[2]] = parseParameter(tool, parameter[2], parameter[3]);
+        }
+        // The wrapper and the space between calls go with them, so nothing is left behind
+        const previous = invokes[i - 1];
+        const start = previous ? bodyStart + previous.index + previous[0].length : blockStart;
+        const end =
+          i === invokes.length - 1 ? blockStart + block[0].length : bodyStart + invoke.index + invoke[0].length;
+        matches.push({ name, arguments: args, start, end, confidence });
+      });
+    }
+    return matches;
+  },
+  progress(text) {
+    const open = FUNCTION_CALLS_OPEN.exec(text);
+    if (!open) {
+      const partial = FUNCTION_CALLS_OPEN_PREFIX.exec(text);
+      return partial && (!partial[1] || "function_calls".startsWith(partial[2])) ? "partial" : undefined;
+    }
+    return text.includes(`</${open[1] ?? ""}function_calls>`, open[0].length) ? "complete" : "partial";
+  },
+};
+
+const JSON_CALL_START = /\{\s*"(?:tool|name)"\s*:/g;
+const JSON_NAME_KEYS = ["tool", "name"];
+const JSON_ARGUMENT_KEYS = ["arguments", "parameters", "input"];
+const JSON_HEAD = /^\{\s*"(?:tool|name)"\s*:/;
+const JSON_HEAD_PREFIXES = JSON_NAME_KEYS.map((key) => prefixPattern(["{", /\s*/, `"${key}"`, /\s*/]));
+
+/** Whether [start, end) has its lines to itself. */
+function isStandalone(text: string, start: number, end: number): boolean {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEndIndex = text.indexOf("\n", end);
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+  return !text.slice(lineStart, start).trim() && !text.slice(end, lineEnd).trim();
+}
+
+/** {"tool": "name", "arguments": {...}} written on its own line. */
+const jsonGrammar: TextToolCallGrammar = {
+  name: "json",
+  find(text) {
+    const matches: TextToolCallMatch[] = [];
+    JSON_CALL_START.lastIndex = 0;
+    for (let match = JSON_CALL_START.exec(text); match !== null; match = JSON_CALL_START.exec(text)) {
+      const jsonEnd = findJsonEnd(text, match.index);
+      if (jsonEnd === -1) continue;
+      let value: unknown;
+      try {
+        value = JSON.parse(text.slice(match.index, jsonEnd + 1));
+      } catch {
+        continue;
+      }
+      if (!isRecord(value) || Object.keys(value).length !== 2) continue;
+      const nameKey = JSON_NAME_KEYS.find((key) => typeof value[key] === "string");
+      const argsKey = JSON_ARGUMENT_KEYS.find((key) => isRecord(value[key]));
+      if (!nameKey || !argsKey) continue;
+      // Inline JSON is usually an example in prose; a call stands on its own
+      const confidence = isStandalone(text, match.index, jsonEnd + 1) ? 0.7 : 0.3;
+      matches.push({
+        name: value[nameKey] as string,
+        arguments: value[argsKey] as Record<string, unknown>,
+        start: match.index,
+        end: jsonEnd + 1,
+        confidence: isInsideFence(text, match.index) ? confidence * FENCED_FACTOR : confidence,
+      });
+      JSON_CALL_START.lastIndex = jsonEnd + 1;
+    }
+    return matches;
+  },
+  // Only calls on a line of their own are followed
+  progress(text, lineStart) {
+    if (text[0] !== "{" || !lineStart) return undefined;
+    if (!JSON_HEAD.test(text)) return JSON_HEAD_PREFIXES.some((prefix) => prefix.test(text)) ? "partial" : undefined;
+    const jsonEnd = findJsonEnd(text, 0);
+    if (jsonEnd === -1) return "partial";
+    const rest = /^[ \t]*(\n)?/.exec(text.slice(jsonEnd + 1));
+    if (rest?.[1]) return "complete";
+    return rest?.[0].length === text.length - jsonEnd - 1 ? "partial" : undefined;
+  },
+};
+
+/** Grammars tried on response text, in no particular order; push onto this to add one. */
+export const textToolCallGrammars: TextToolCallGrammar[] = [bracketGrammar, xmlGrammar, jsonGrammar];
+
+/** Score a match against the declared tools; undefined when no declared tool accepts it. */
+function scoreMatch(
+  match: TextToolCallMatch,
+  tools: Tool[],
+): { arguments: Record<string, unknown>; confidence: number } | undefined {
+  const tool = tools.find((t) => t.name === match.name);
+  if (!tool) return undefined;
+  let args: Record<string, unknown>;
+  try {
+    const call: ToolCall = { type: "toolCall", id: "", name: match.name, arguments: match.arguments };
+    args = validateToolArguments(tool, call);
+  } catch {
+    return undefined;
+  }
+  const declared = (tool.parameters as { properties?: Record<string, unknown> }).properties;
+  const undeclared = declared ? Object.keys(args).some((key) => !(key in declared)) : false;
+  return { arguments: args, confidence: match.confidence * (undeclared ? UNDECLARED_ARGUMENT_FACTOR : 1) };
+}
+
+/** Score a grammar's match and log the decision; the call, when it is accepted. */
+function acceptMatch(grammar: string, match: TextToolCallMatch, tools: Tool[]): TextToolCall | undefined {
+  const scored = scoreMatch(match, tools);
+  const accepted = !!scored && scored.confidence >= TEXT_TOOL_CALL_MIN_CONFIDENCE;
+  debugLog("tool.text-call", { grammar, name: match.name, confidence: scored?.confidence ?? 0, accepted });
+  if (!scored || !accepted) return undefined;
+  return {
+    toolUseId: crypto.randomUUID(),
+    name: match.name,
+    arguments: scored.arguments,
+    grammar,
+    confidence: scored.confidence,
+  };
+}
+
+/**
+ * Find tool calls written as text. Only calls to a tool in `tools` whose
+ * arguments satisfy its schema, scoring at least TEXT_TOOL_CALL_MIN_CONFIDENCE,
+ * are returned; their markup is removed from `cleanedText`.
+ */
+export function extractTextToolCalls(
+  text: string,
+  tools: Tool[] | undefined,
+  grammars: TextToolCallGrammar[] = textToolCallGrammars,
+): TextToolCallResult {
+  if (!tools?.length || !text) return { toolCalls: [], cleanedText: text };
+
+  const candidates: Array<{ start: number; end: number; call: TextToolCall }> = [];
+  for (const grammar of grammars) {
+    for (const match of grammar.find(text, tools)) {
+      const call = acceptMatch(grammar.name, match, tools);
+      if (call) candidates.push({ start: match.start, end: match.end, call });
+    }
+  }
+
+  // When grammars overlap, the most confident reading of the span wins
+  candidates.sort((a, b) => b.call.confidence - a.call.confidence);
+  const chosen: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (chosen.every((c) => candidate.end <= c.start || candidate.start >= c.end)) chosen.push(candidate);
+  }
+  chosen.sort((a, b) => a.start - b.start);
+
+  let cleanedText = text;
+  for (let i = chosen.length - 1; i >= 0; i--) {
+    cleanedText = cleanedText.slice(0, chosen[i].start) + cleanedText.slice(chosen[i].end);
+  }
+  return { toolCalls: chosen.map((c) => c.call), cleanedText };
+}
+
+// Held text past this is let go as text; the pass over the finished response still sees it
+const MAX_HELD_CHARS = 64_000;
+const CALL_START_CHARS = "[<{";
+
+/** Where shown text leaves off: whether its line is blank so far, inside a ``` fence, and backticks in a row. */
+interface TextPosition {
+  lineBlank: boolean;
+  inFence: boolean;
+  backticks: number;
+}
+
+function advancePosition(position: TextPosition, text: string): TextPosition {
+  let { lineBlank, inFence, backticks } = position;
+  for (const c of text) {
+    if (c === "`") {
+      lineBlank = false;
+      if (++backticks === 3) {
+        inFence = !inFence;
+        backticks = 0;
+      }
+      continue;
+    }
+    backticks = 0;
+    if (c === "\n") lineBlank = true;
+    else if (c !== " " && c !== "\t") lineBlank = false;
+  }
+  return { lineBlank, inFence, backticks };
+}
+
+/**
+ * Detects text tool calls while the response streams. Text that may begin a
+ * call is held back until it resolves: a completed call that would be
+ * accepted goes to `onToolCall` instead of being shown, and anything else is
+ * let go as text. With no tools declared, text passes straight through.
+ * Only the held text is searched; what was shown is summed up in `position`.
+ */
+export class TextToolCallStream {
+  private position: TextPosition = { lineBlank: true, inFence: false, backticks: 0 };
+  private held = "";
+  private stopped: boolean;
+  private readonly tools: Tool[];
+  private readonly grammars: TextToolCallGrammar[];
+
+  constructor(
+    tools: Tool[] | undefined,
+    private onToolCall: (call: TextToolCall) => void,
+    grammars: TextToolCallGrammar[] = textToolCallGrammars,
+  ) {
+    this.tools = tools ?? [];
+    this.grammars = grammars.filter((grammar) => grammar.progress);
+    this.stopped = this.tools.length === 0 || this.grammars.length === 0;
+  }
+
+  /** Take streamed text; what cannot be part of a call goes on to `emit` right away. */
+  push(text: string, emit: (text: string) => void): void {
+    if (this.stopped) {
+      emit(text);
+      return;
+    }
+    this.held += text;
+    this.drain(emit, false);
+  }
+
+  /** The run of text ended (thinking, a native tool call, or the response's end): resolve what is held. */
+  flush(emit: (text: string) => void): void {
+    if (this.held) this.drain(emit, true);
+  }
+
+  /** Pass text straight through from now on, once the model has made native tool calls. Flush first. */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private drain(emit: (text: string) => void, final: boolean): void {
+    const show = (text: string) => {
+      if (!text) return;
+      this.position = advancePosition(this.position, text);
+      emit(text);
+    };
+    while (this.held) {
+      const start = this.findCandidate();
+      if (start === -1) {
+        const text = this.held;
+        this.held = "";
+        show(text);
+        return;
+      }
+      const before = this.held.slice(0, start);
+      this.held = this.held.slice(start);
+      show(before);
+
+      let waiting = false;
+      let resolved = false;
+      for (const grammar of this.grammars) {
+        const progress = grammar.progress?.(this.held, this.position.lineBlank);
+        if (!progress) continue;
+        // A call still being written may complete; at the end of the run, it is tried as it stands
+        if (progress === "partial" && !final) {
+          waiting = true;
+          continue;
+        }
+        if (this.resolve(grammar, show)) {
+          resolved = true;
+          break;
+        }
+      }
+      if (resolved) continue;
+      if (waiting && this.held.length <= MAX_HELD_CHARS) return;
+      // Not a call after all: its first character is text, and the search goes on after it
+      const first = this.held[0];
+      this.held = this.held.slice(1);
+      show(first);
+    }
+  }
+
+  /** Where in the held text the first call may start, or -1. */
+  private findCandidate(): number {
+    let position = this.position;
+    for (let i = 0; i < this.held.length; i++) {
+      const c = this.held[i];
+      if (!position.inFence && CALL_START_CHARS.includes(c)) {
+        const text = this.held.slice(i);
+        const lineStart = position.lineBlank;
+        if (this.grammars.some((grammar) => grammar.progress?.(text, lineStart))) return i;
+      }
+      position = advancePosition(position, c);
+    }
+    return -1;
+  }
+
+  /** Resolve the calls `grammar` finds at the start of the held text; false when it finds none. */
+  private resolve(grammar: TextToolCallGrammar, show: (text: string) => void): boolean {
+    const text = this.held;
+    // Adjacent calls (several invokes in one XML block) resolve together
+    const run: TextToolCallMatch[] = [];
+    for (const match of grammar.find(text, this.tools).sort((a, b) => a.start - b.start)) {
+      if (match.start !== (run.at(-1)?.end ?? 0)) break;
+      run.push(match);
+    }
+    const end = run.at(-1)?.end;
+    if (end === undefined) return false;
+    this.held = text.slice(end);
+    for (const match of run) {
+      const call = acceptMatch(grammar.name, match, this.tools);
+      if (call) this.onToolCall(call);
+      else show(text.slice(match.start, match.end));
+    }
+    return true;
+  }
+}
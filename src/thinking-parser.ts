@@ -7,6 +7,8 @@ import type {
   TextContent,
   ThinkingContent,
 } from "@earendil-works/pi-ai";
+import { isOpenBlock } from "./blocks.js";
+import type { TextToolCallStream } from "./text-tool-calls.js";
 
 export const THINKING_START_TAG = "<thinking>";
 export const THINKING_END_TAG = "</thinking>";
@@ -27,6 +29,28 @@ function getTrailingPossibleTagPrefixLength(text: string, tag: string): number {
   return 0;
 }
 
+/** Where visible text leaves off: in a ``` fence or `code span`, and a run of backticks that may go on. */
+interface CodeState {
+  fence: boolean;
+  span: boolean;
+  backticks: string;
+}
+
+/** The code state after `text`; a trailing backtick run is only counted once `ended`. */
+function advanceCodeState(state: CodeState, text: string, ended = false): CodeState {
+  const full = state.backticks + text;
+  const backticks = ended ? "" : (/`*$/.exec(full)?.[0] ?? "");
+  let { fence, span } = state;
+  for (const run of full.slice(0, full.length - backticks.length).match(/`+/g) ?? []) {
+    if (run.length >= 3) {
+      if (!span) fence = !fence;
+    } else if (!fence) {
+      span = !span;
+    }
+  }
+  return { fence, span, backticks };
+}
+
 function getMaxTrailingPossibleTagPrefixLength(text: string, tags: string[]): number {
   let maxLength = 0;
   for (const tag of tags) {
@@ -35,14 +59,23 @@ function getMaxTrailingPossibleTagPrefixLength(text: string, tags: string[]): nu
   return maxLength;
 }
 
+/**
+ * Splits streamed content into thinking and text blocks. Any number of thinking
+ * segments may be interleaved with text, each getting its own thinking block.
+ * After the first segment, only its tag opens another, and not inside code,
+ * so an answer that mentions these tags keeps them as text.
+ */
 export class ThinkingTagParser {
   private textBuffer = "";
   private inThinking = false;
-  private thinkingExtracted = false;
+  private thinkingSegments = 0;
   private thinkingBlockIndex: number | null = null;
   private textBlockIndex: number | null = null;
   private lastTextBlockIndex: number | null = null;
   private activeEndTag: string = THINKING_END_TAG;
+  private firstVariant: (typeof THINKING_TAG_VARIANTS)[number] | null = null;
+  private codeState: CodeState = { fence: false, span: false, backticks: "" };
+  private textToolCalls: TextToolCallStream | null = null;
 
   constructor(
     private output: AssistantMessage,
@@ -53,54 +86,49 @@ export class ThinkingTagParser {
     this.textBuffer += chunk;
     while (this.textBuffer.length > 0) {
       const prevLength = this.textBuffer.length;
-      if (!this.inThinking && !this.thinkingExtracted) {
-        this.processBeforeThinking();
-        if (this.textBuffer.length === 0) break;
-      }
-      if (this.inThinking) {
-        this.processInsideThinking();
-        if (this.textBuffer.length === 0) break;
-      }
-      if (this.thinkingExtracted) {
-        this.processAfterThinking();
-        break;
-      }
+      if (this.inThinking) this.processInsideThinking();
+      else this.processOutsideThinking();
       if (this.textBuffer.length >= prevLength) break;
     }
   }
 
+  /** Emit everything buffered and end an open thinking segment; later chunks start in text. */
   finalize(): void {
-    if (this.textBuffer.length === 0) return;
-    if (this.inThinking && this.thinkingBlockIndex !== null) {
-      const block = this.output.content[this.thinkingBlockIndex] as ThinkingContent;
-      block.thinking += this.textBuffer;
-      this.stream.push({
-        type: "thinking_delta",
-        contentIndex: this.thinkingBlockIndex,
-        delta: this.textBuffer,
-        partial: this.output,
-      });
-      this.stream.push({
-        type: "thinking_end",
-        contentIndex: this.thinkingBlockIndex,
-        content: block.thinking,
-        partial: this.output,
-      });
+    if (this.inThinking) {
+      this.emitThinking(this.textBuffer);
+      this.endThinking();
     } else {
       this.emitText(this.textBuffer);
     }
     this.textBuffer = "";
+    this.flushText();
+  }
+
+  /** Pass visible text through `detector`, which picks out tool calls written as text. */
+  setTextToolCalls(detector: TextToolCallStream | null): void {
+    this.textToolCalls = detector;
+  }
+
+  /** Emit the text the tool call detector is holding back. */
+  flushText(): void {
+    this.textToolCalls?.flush((text) => this.appendText(text));
   }
 
+  /** The text block not yet ended, if any; its text_end is left to the caller. */
   getTextBlockIndex(): number | null {
     return this.textBlockIndex ?? this.lastTextBlockIndex;
   }
 
-  private processBeforeThinking(): void {
+  private processOutsideThinking(): void {
+    const variants = this.firstVariant ? [this.firstVariant] : THINKING_TAG_VARIANTS;
     let bestPos = -1;
     let bestVariant: (typeof THINKING_TAG_VARIANTS)[number] | null = null;
-    for (const variant of THINKING_TAG_VARIANTS) {
-      const pos = this.textBuffer.indexOf(variant.open);
+    for (const variant of variants) {
+      let pos = this.textBuffer.indexOf(variant.open);
+      // A later tag inside code is the answer talking about the tag
+      while (this.firstVariant && pos !== -1 && this.isInsideCode(pos)) {
+        pos = this.textBuffer.indexOf(variant.open, pos + 1);
+      }
       if (pos !== -1 && (bestPos === -1 || pos < bestPos)) {
         bestPos = pos;
         bestVariant = variant;
@@ -108,7 +136,9 @@ export class ThinkingTagParser {
     }
     if (bestPos !== -1 && bestVariant) {
       if (bestPos > 0) this.emitText(this.textBuffer.slice(0, bestPos));
+      this.flushText();
       this.textBuffer = this.textBuffer.slice(bestPos + bestVariant.open.length);
+      this.firstVariant ??= bestVariant;
       this.activeEndTag = bestVariant.close;
       this.inThinking = true;
       return;
@@ -116,7 +146,7 @@ export class ThinkingTagParser {
 
     const trailingPrefixLength = getMaxTrailingPossibleTagPrefixLength(
       this.textBuffer,
-      THINKING_TAG_VARIANTS.map((variant) => variant.open),
+      variants.map((variant) => variant.open),
     );
     const safeLen = this.textBuffer.length - trailingPrefixLength;
     if (safeLen > 0) {
@@ -125,24 +155,18 @@ export class ThinkingTagParser {
     }
   }
 
+  /** Whether buffered text at `pos` falls in a code fence or span of the visible text. */
+  private isInsideCode(pos: number): boolean {
+    const state = advanceCodeState(this.codeState, this.textBuffer.slice(0, pos), true);
+    return state.fence || state.span;
+  }
+
   private processInsideThinking(): void {
     const endPos = this.textBuffer.indexOf(this.activeEndTag);
     if (endPos !== -1) {
-      if (endPos > 0) this.emitThinking(this.textBuffer.slice(0, endPos));
-      if (this.thinkingBlockIndex !== null) {
-        const block = this.output.content[this.thinkingBlockIndex] as ThinkingContent;
-        this.stream.push({
-          type: "thinking_end",
-          contentIndex: this.thinkingBlockIndex,
-          content: block.thinking,
-          partial: this.output,
-        });
-      }
+      this.emitThinking(this.textBuffer.slice(0, endPos));
+      this.endThinking();
       this.textBuffer = this.textBuffer.slice(endPos + this.activeEndTag.length);
-      this.inThinking = false;
-      this.thinkingExtracted = true;
-      this.lastTextBlockIndex = this.textBlockIndex;
-      this.textBlockIndex = null;
       if (this.textBuffer.startsWith("\n\n")) this.textBuffer = this.textBuffer.slice(2);
       return;
     }
@@ -155,14 +179,44 @@ export class ThinkingTagParser {
     }
   }
 
-  private processAfterThinking(): void {
-    this.emitText(this.textBuffer);
-    this.textBuffer = "";
+  private endThinking(): void {
+    this.inThinking = false;
+    // Text after a thinking segment goes in a new block
+    if (this.textBlockIndex !== null) this.lastTextBlockIndex = this.textBlockIndex;
+    this.textBlockIndex = null;
+    if (this.thinkingBlockIndex === null) return;
+    const block = this.output.content[this.thinkingBlockIndex] as ThinkingContent;
+    this.stream.push({
+      type: "thinking_end",
+      contentIndex: this.thinkingBlockIndex,
+      content: block.thinking,
+      partial: this.output,
+    });
+    this.thinkingBlockIndex = null;
   }
 
   private emitText(text: string): void {
     if (!text) return;
-    if (this.textBlockIndex === null) {
+    this.codeState = advanceCodeState(this.codeState, text);
+    if (this.textToolCalls) this.textToolCalls.push(text, (visible) => this.appendText(visible));
+    else this.appendText(text);
+  }
+
+  private appendText(text: string): void {
+    if (!isOpenBlock(this.output, this.textBlockIndex)) {
+      // Something else (a tool call) was appended after the text block
+      if (this.textBlockIndex !== null) this.lastTextBlockIndex = this.textBlockIndex;
+      // A text block is only ended once later text needs a block of its own
+      if (this.lastTextBlockIndex !== null) {
+        const last = this.output.content[this.lastTextBlockIndex] as TextContent;
+        this.stream.push({
+          type: "text_end",
+          contentIndex: this.lastTextBlockIndex,
+          content: last.text,
+          partial: this.output,
+        });
+        this.lastTextBlockIndex = null;
+      }
       this.textBlockIndex = this.output.content.length;
       this.output.content.push({ type: "text", text: "" });
       this.stream.push({ type: "text_start", contentIndex: this.textBlockIndex, partial: this.output });
@@ -175,9 +229,9 @@ export class ThinkingTagParser {
   private emitThinking(thinking: string): void {
     if (!thinking) return;
     if (this.thinkingBlockIndex === null) {
-      if (this.textBlockIndex !== null) {
-        // Thinking arrived after text was already emitted (Kiro API sends
-        // text before thinking content). Insert the thinking block before
+      if (this.thinkingSegments === 0 && isOpenBlock(this.output, this.textBlockIndex)) {
+        // The first thinking arrived after text was already emitted (Kiro API
+        // sends text before thinking content). Insert the thinking block before
         // the text block so the content array order is thinking → text.
         this.thinkingBlockIndex = this.textBlockIndex;
         this.output.content.splice(this.thinkingBlockIndex, 0, { type: "thinking", thinking: "" });
@@ -186,6 +240,7 @@ export class ThinkingTagParser {
         this.thinkingBlockIndex = this.output.content.length;
         this.output.content.push({ type: "thinking", thinking: "" });
       }
+      this.thinkingSegments++;
       this.stream.push({ type: "thinking_start", contentIndex: this.thinkingBlockIndex, partial: this.output });
     }
     const block = this.output.content[this.thinkingBlockIndex] as ThinkingContent;
@@ -1,6 +1,7 @@
 // ABOUTME: Token counting using js-tiktoken with lazy-loaded cl100k_base encoding.
-// ABOUTME: Provides accurate token counts for Kiro API response content.
+// ABOUTME: Provides accurate token counts for Kiro API response content and history budgeting.
 
+import { createHash } from "node:crypto";
 import { encodingForModel } from "js-tiktoken";
 
 let encoder: ReturnType<typeof encodingForModel> | null = null;
@@ -12,7 +13,47 @@ function getEncoder() {
   return encoder;
 }
 
+// BPE merging is quadratic in the length of one pre-tokenized piece, and an
+// unbroken run (base64, minified code, CJK text, long indentation) is a single
+// piece. Such runs are counted in slices, which can move a token boundary and
+// shift the count by at most one per slice.
+const MAX_RUN = 64;
+const LONG_RUN = new RegExp(`\\S{${MAX_RUN},}|\\s{${MAX_RUN},}`, "g");
+
+function encodedLength(text: string): number {
+  return text.length === 0 ? 0 : getEncoder().encode(text).length;
+}
+
 export function countTokens(text: string): number {
   if (text.length === 0) return 0;
-  return getEncoder().encode(text).length;
+  let count = 0;
+  let last = 0;
+  for (const match of text.matchAll(LONG_RUN)) {
+    count += encodedLength(text.slice(last, match.index));
+    for (let i = 0; i < match[0].length; i += MAX_RUN) count += encodedLength(match[0].slice(i, i + MAX_RUN));
+    last = match.index + match[0].length;
+  }
+  return count + encodedLength(text.slice(last));
+}
+
+// Token counts by content hash. History is rebuilt from scratch on every
+// request, so entries can only be matched across requests by content.
+const TOKEN_CACHE_SIZE = 65_536;
+const tokenCache = new Map<string, number>();
+
+/** countTokens with an LRU cache, for text that is counted again on every request. */
+export function countTokensCached(text: string): number {
+  if (text.length === 0) return 0;
+  const key = createHash("sha1").update(text).digest("base64");
+  const cached = tokenCache.get(key);
+  if (cached !== undefined) {
+    // Re-insert to mark as most recently used
+    tokenCache.delete(key);
+    tokenCache.set(key, cached);
+    return cached;
+  }
+  const count = countTokens(text);
+  tokenCache.set(key, count);
+  if (tokenCache.size > TOKEN_CACHE_SIZE) tokenCache.delete(tokenCache.keys().next().value as string);
+  return count;
 }
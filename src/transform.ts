@@ -10,6 +10,7 @@ import type {
   ToolCall,
   ToolResultMessage,
 } from "@earendil-works/pi-ai";
+import { pinHistoryEntry } from "./history.js";
 
 export interface KiroImage {
   format: string;
@@ -35,9 +36,15 @@ export interface KiroUserInputMessage {
   images?: KiroImage[];
   userInputMessageContext?: { toolResults?: KiroToolResult[]; tools?: KiroToolSpec[] };
 }
+/** Reasoning re-sent with an assistant turn, in the shape Bedrock's Converse API uses; Kiro does not document it. */
+export interface KiroReasoningContent {
+  reasoningText?: { text: string; signature?: string };
+  redactedContent?: string;
+}
 export interface KiroAssistantResponseMessage {
   content: string;
   toolUses?: KiroToolUse[];
+  reasoningContent?: KiroReasoningContent;
 }
 export interface KiroHistoryEntry {
   userInputMessage?: KiroUserInputMessage;
@@ -46,6 +53,52 @@ export interface KiroHistoryEntry {
 
 export const TOOL_RESULT_LIMIT = 250000;
 
+// Mutable so user settings can change the per-result cap
+export const toolResultConfig = {
+  limit: TOOL_RESULT_LIMIT,
+};
+
+/**
+ * What happens to thinking that cannot be re-sent as native reasoning: "text"
+ * keeps it in the turn's text inside <thinking> tags, "drop" leaves it out.
+ */
+export type ThinkingHistoryFallback = "text" | "drop";
+
+// Mutable so user settings can change the fallback
+export const thinkingHistoryConfig: { fallback: ThinkingHistoryFallback } = {
+  fallback: "text",
+};
+
+/** The model a request is for; only thinking it signed itself can be re-sent natively. */
+export interface ThinkingReplayTarget {
+  provider: string;
+  model: string;
+}
+
+// Session and model pairs for which Kiro rejected reasoning content; their thinking takes the fallback
+const reasoningReplayRejected = new Set<string>();
+
+const replayKey = (conversationId: string, modelId: string) => `${conversationId}\n${modelId}`;
+
+/** Whether thinking may be re-sent to `modelId` as reasoning content in session `conversationId`. */
+export function reasoningReplaySupported(conversationId: string, modelId: string): boolean {
+  return !reasoningReplayRejected.has(replayKey(conversationId, modelId));
+}
+
+/** Stop re-sending reasoning content to `modelId` for the rest of session `conversationId`. */
+export function rejectReasoningReplay(conversationId: string, modelId: string): void {
+  reasoningReplayRejected.add(replayKey(conversationId, modelId));
+}
+
+/** Forget rejected sessions (tests). */
+export function resetReasoningReplay(): void {
+  reasoningReplayRejected.clear();
+}
+
+export function hasReasoningContent(history: KiroHistoryEntry[]): boolean {
+  return history.some((entry) => entry.assistantResponseMessage?.reasoningContent);
+}
+
 export function sanitizeSurrogates(text: string): string {
   // Replace unpaired high surrogates (0xD800-0xDBFF not followed by low surrogate)
   // Replace unpaired low surrogates (0xDC00-0xDFFF not preceded by high surrogate)
@@ -102,14 +155,74 @@ export function convertImagesToKiro(images: Array<{ mimeType: string; data: stri
   return images.map((img) => ({ format: img.mimeType.split("/")[1] || "png", source: { bytes: img.data } }));
 }
 
+/** User messages carrying `pinned: true` survive history truncation. */
+export function isPinnedMessage(msg: Message): boolean {
+  return msg.role === "user" && (msg as Message & { pinned?: unknown }).pinned === true;
+}
+
+/**
+ * Convert an assistant message to a Kiro history turn; undefined when nothing is left to send.
+ * A signed or redacted thinking block from `replay`'s own model is re-sent as reasoning
+ * content so the model keeps its reasoning across tool calls. A Kiro turn holds one
+ * reasoning content, so with several signed blocks the last is sent that way: it is the
+ * reasoning that led to the turn's tool calls. The reasoning content shape is Bedrock's,
+ * not one seen in a captured Kiro request, so all unredacted thinking, the signed block
+ * included, also follows `thinkingHistoryConfig.fallback`; redacted thinking is dropped
+ * unless sent natively.
+ */
+export function convertAssistantMessage(
+  msg: AssistantMessage,
+  replay?: ThinkingReplayTarget,
+): KiroAssistantResponseMessage | undefined {
+  let content = "";
+  const toolUses: KiroToolUse[] = [];
+  const thinking: ThinkingContent[] = [];
+  if (Array.isArray(msg.content)) {
+    for (const block of msg.content) {
+      if (block.type === "text") content += (block as TextContent).text;
+      else if (block.type === "thinking") thinking.push(block as ThinkingContent);
+      else if (block.type === "toolCall") {
+        const tc = block as ToolCall;
+        toolUses.push({
+          name: tc.name,
+          toolUseId: tc.id,
+          input: typeof tc.arguments === "string" ? JSON.parse(tc.arguments) : tc.arguments,
+        });
+      }
+    }
+  }
+  const sameModel = !!replay && msg.provider === replay.provider && msg.model === replay.model;
+  const signed = sameModel ? thinking.filter((block) => block.thinkingSignature).at(-1) : undefined;
+  let reasoningContent: KiroReasoningContent | undefined;
+  if (signed?.thinkingSignature) {
+    reasoningContent = signed.redacted
+      ? { redactedContent: signed.thinkingSignature }
+      : { reasoningText: { text: signed.thinking, signature: signed.thinkingSignature } };
+  }
+  if (thinkingHistoryConfig.fallback === "text") {
+    const tagged = thinking
+      .filter((block) => !block.redacted)
+      .map((block) => `<thinking>${block.thinking}</thinking>\n\n`)
+      .join("");
+    content = tagged + content;
+  }
+  if (!content && toolUses.length === 0 && !reasoningContent) return undefined;
+  return {
+    content,
+    ...(toolUses.length > 0 ? { toolUses } : {}),
+    ...(reasoningContent ? { reasoningContent } : {}),
+  };
+}
+
 export function buildHistory(
   messages: Message[],
   modelId: string,
   systemPrompt?: string,
+  replay?: ThinkingReplayTarget,
 ): { history: KiroHistoryEntry[]; systemPrepended: boolean; currentMsgStartIdx: number } {
   const history: KiroHistoryEntry[] = [];
   let systemPrepended = false;
-  const toolResultLimit = TOOL_RESULT_LIMIT;
+  const toolResultLimit = toolResultConfig.limit;
 
   let currentMsgStartIdx = messages.length - 1;
   while (currentMsgStartIdx > 0 && messages[currentMsgStartIdx].role === "toolResult") currentMsgStartIdx--;
@@ -144,28 +257,10 @@ export function buildHistory(
       } else {
         history.push({ userInputMessage: uim });
       }
+      if (isPinnedMessage(msg)) pinHistoryEntry(history[history.length - 1]);
     } else if (msg.role === "assistant") {
-      let armContent = "";
-      const armToolUses: KiroToolUse[] = [];
-      if (Array.isArray(msg.content)) {
-        for (const block of msg.content) {
-          if (block.type === "text") armContent += (block as TextContent).text;
-          else if (block.type === "thinking")
-            armContent = `<thinking>${(block as ThinkingContent).thinking}</thinking>\n\n${armContent}`;
-          else if (block.type === "toolCall") {
-            const tc = block as ToolCall;
-            armToolUses.push({
-              name: tc.name,
-              toolUseId: tc.id,
-              input: typeof tc.arguments === "string" ? JSON.parse(tc.arguments) : tc.arguments,
-            });
-          }
-        }
-      }
-      if (!armContent && armToolUses.length === 0) continue;
-      history.push({
-        assistantResponseMessage: { content: armContent, ...(armToolUses.length > 0 ? { toolUses: armToolUses } : {}) },
-      });
+      const arm = convertAssistantMessage(msg, replay);
+      if (arm) history.push({ assistantResponseMessage: arm });
     } else if (msg.role === "toolResult") {
       const trMsg = msg as ToolResultMessage;
       const toolResults: KiroToolResult[] = [
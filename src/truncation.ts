@@ -6,6 +6,9 @@ import type { AssistantMessage, Message } from "@earendil-works/pi-ai";
 export const TRUNCATION_NOTICE =
   "[NOTE: Your previous response was cut off due to length limits. Please continue from where you left off.]";
 
+export const RESUME_NOTICE =
+  "[NOTE: Your previous response was interrupted mid-stream. Continue exactly where it stopped, without repeating any text already written.]";
+
 export function wasPreviousResponseTruncated(messages: Message[]): boolean {
   // Find the most recent assistant message
   for (let i = messages.length - 1; i >= 0; i--) {
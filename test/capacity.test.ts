@@ -0,0 +1,103 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  acquireCapacityCircuit,
+  isCapacityCircuitOpen,
+  recordCapacityFailure,
+  recordCapacitySuccess,
+  resetCapacityCircuits,
+} from "../src/capacity.js";
+import { capacityBreakerConfig } from "../src/retry.js";
+
+const KEY = "us-east-1/claude-sonnet-4.5";
+const circuitFile = () => join(homedir(), ".pi", "kiro-capacity-circuit.json");
+
+function fail(times: number): void {
+  for (let i = 0; i < times; i++) recordCapacityFailure(KEY);
+}
+
+describe("capacity circuit breaker", () => {
+  const origConfig = { ...capacityBreakerConfig };
+
+  beforeEach(() => {
+    resetCapacityCircuits();
+    Object.assign(capacityBreakerConfig, { failureThreshold: 3, cooldownMs: 1_000 });
+    vi.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    Object.assign(capacityBreakerConfig, origConfig);
+    vi.useRealTimers();
+  });
+
+  it("stays closed below the failure threshold", () => {
+    fail(2);
+
+    expect(acquireCapacityCircuit(KEY)).toBe("closed");
+    expect(isCapacityCircuitOpen(KEY)).toBe(false);
+  });
+
+  it("opens after consecutive capacity errors and persists to disk", () => {
+    fail(3);
+
+    expect(acquireCapacityCircuit(KEY)).toBe("open");
+    expect(isCapacityCircuitOpen(KEY)).toBe(true);
+    expect(JSON.parse(readFileSync(circuitFile(), "utf-8"))[KEY]).toMatchObject({ failures: 3, openedAt: 1_000_000 });
+  });
+
+  it("keys circuits by region and model", () => {
+    fail(3);
+
+    expect(acquireCapacityCircuit("eu-central-1/claude-sonnet-4.5")).toBe("closed");
+    expect(acquireCapacityCircuit("us-east-1/claude-haiku-4.5")).toBe("closed");
+  });
+
+  it("lets a single half-open probe through after the cooldown", () => {
+    fail(3);
+    vi.advanceTimersByTime(1_000);
+
+    expect(acquireCapacityCircuit(KEY)).toBe("half-open");
+    expect(acquireCapacityCircuit(KEY)).toBe("open");
+  });
+
+  it("reopens when the probe hits capacity again", () => {
+    fail(3);
+    vi.advanceTimersByTime(1_000);
+    acquireCapacityCircuit(KEY);
+
+    recordCapacityFailure(KEY);
+
+    expect(isCapacityCircuitOpen(KEY)).toBe(true);
+    vi.advanceTimersByTime(999);
+    expect(acquireCapacityCircuit(KEY)).toBe("open");
+    vi.advanceTimersByTime(1);
+    expect(acquireCapacityCircuit(KEY)).toBe("half-open");
+  });
+
+  it("closes and forgets failures on success", () => {
+    fail(3);
+    vi.advanceTimersByTime(1_000);
+    acquireCapacityCircuit(KEY);
+
+    recordCapacitySuccess(KEY);
+
+    expect(acquireCapacityCircuit(KEY)).toBe("closed");
+    fail(2);
+    expect(acquireCapacityCircuit(KEY)).toBe("closed");
+  });
+
+  it("honors a circuit opened by another process", () => {
+    mkdirSync(join(homedir(), ".pi"), { recursive: true });
+    writeFileSync(circuitFile(), JSON.stringify({ [KEY]: { failures: 5, openedAt: Date.now() } }));
+
+    expect(acquireCapacityCircuit(KEY)).toBe("open");
+  });
+
+  it("does not touch the state file for healthy models", () => {
+    recordCapacitySuccess(KEY);
+
+    expect(existsSync(circuitFile())).toBe(false);
+  });
+});
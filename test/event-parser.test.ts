@@ -44,6 +44,13 @@ describe("Feature 8: Stream Event Parsing", () => {
       });
     });
 
+    it("parses redacted thinking", () => {
+      expect(parseKiroEvent({ redactedContent: "ZW5jcnlwdGVk" })).toEqual({
+        type: "thinkingRedacted",
+        data: "ZW5jcnlwdGVk",
+      });
+    });
+
     it("parses toolUse event", () => {
       const e = parseKiroEvent({ name: "bash", toolUseId: "tc1", input: '{"cmd":"ls"}' });
       expect(e?.type).toBe("toolUse");
@@ -72,7 +79,12 @@ describe("Feature 8: Stream Event Parsing", () => {
 
     it("parses followupPrompt event", () => {
       const e = parseKiroEvent({ followupPrompt: "What would you like to do next?" });
-      expect(e).toEqual({ type: "followupPrompt", data: "What would you like to do next?" });
+      expect(e).toEqual({ type: "followupPrompt", data: { content: "What would you like to do next?" } });
+    });
+
+    it("parses structured followupPrompt event", () => {
+      const e = parseKiroEvent({ followupPrompt: { content: "Add tests", userIntent: "GENERATE_UNIT_TESTS" } });
+      expect(e).toEqual({ type: "followupPrompt", data: { content: "Add tests", userIntent: "GENERATE_UNIT_TESTS" } });
     });
 
     it("parses usage event", () => {
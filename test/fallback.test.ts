@@ -0,0 +1,78 @@
+import type { Api, Context, Model } from "@earendil-works/pi-ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getFallbackModels, parseFallbackChains } from "../src/fallback.js";
+import { kiroModels } from "../src/models.js";
+
+function model(id: string, extra: Record<string, unknown> = {}): Model<Api> {
+  const found = kiroModels.find((m) => m.id === id);
+  if (!found) throw new Error(`no model ${id}`);
+  return { ...found, ...extra } as Model<Api>;
+}
+
+const textContext: Context = { messages: [{ role: "user", content: "Hello", timestamp: 0 }] };
+
+describe("parseFallbackChains", () => {
+  it("splits chains and models, ignoring blanks and single-model chains", () => {
+    expect(parseFallbackChains(" a, b ,c ; d ;; e,f,")).toEqual([
+      ["a", "b", "c"],
+      ["e", "f"],
+    ]);
+  });
+
+  it("returns no chains when unset", () => {
+    expect(parseFallbackChains(undefined)).toEqual([]);
+  });
+});
+
+describe("getFallbackModels", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the models after the requested one, keeping the caller's routing", () => {
+    vi.stubEnv("KIRO_MODEL_FALLBACKS", "claude-opus-4-8,claude-opus-4-7,claude-sonnet-5");
+
+    const fallbacks = getFallbackModels(
+      model("claude-opus-4-7", { baseUrl: "https://runtime.eu-central-1.kiro.dev/", kiroProfileArn: "arn:p" }),
+      textContext,
+    );
+
+    expect(fallbacks.map((m) => m.id)).toEqual(["claude-sonnet-5"]);
+    expect(fallbacks[0]).toMatchObject({
+      baseUrl: "https://runtime.eu-central-1.kiro.dev/",
+      kiroRegion: "eu-central-1",
+      kiroProfileArn: "arn:p",
+    });
+  });
+
+  it("returns nothing for models outside every chain", () => {
+    vi.stubEnv("KIRO_MODEL_FALLBACKS", "claude-opus-4-8,claude-opus-4-7");
+
+    expect(getFallbackModels(model("claude-sonnet-5"), textContext)).toEqual([]);
+  });
+
+  it("skips fallbacks whose context window cannot hold the conversation", () => {
+    vi.stubEnv("KIRO_MODEL_FALLBACKS", "claude-opus-4-8,claude-sonnet-4-5,claude-sonnet-5");
+    const context: Context = { messages: [{ role: "user", content: "x".repeat(1_000_000), timestamp: 0 }] };
+
+    expect(getFallbackModels(model("claude-opus-4-8"), context).map((m) => m.id)).toEqual(["claude-sonnet-5"]);
+  });
+
+  it("skips text-only fallbacks when the conversation contains images", () => {
+    vi.stubEnv("KIRO_MODEL_FALLBACKS", "claude-sonnet-4-5,deepseek-3-2,claude-haiku-4-5");
+    const context: Context = {
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+          ],
+          timestamp: 0,
+        },
+      ],
+    };
+
+    expect(getFallbackModels(model("claude-sonnet-4-5"), context).map((m) => m.id)).toEqual(["claude-haiku-4-5"]);
+  });
+});
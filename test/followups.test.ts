@@ -0,0 +1,75 @@
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { describe, expect, it, vi } from "vitest";
+import { registerKiroFollowups } from "../src/followups.js";
+
+type Handler = (event: unknown, ctx: ExtensionContext) => Promise<void>;
+type Command = { handler: (args: string, ctx: ExtensionContext) => Promise<void> };
+
+function setup() {
+  const handlers = new Map<string, Handler>();
+  const commands = new Map<string, Command>();
+  const sendUserMessage = vi.fn();
+  const pi = {
+    on: (event: string, handler: Handler) => handlers.set(event, handler),
+    registerCommand: (name: string, command: Command) => commands.set(name, command),
+    sendUserMessage,
+  } as unknown as ExtensionAPI;
+  const setWidget = vi.fn();
+  const notify = vi.fn();
+  const ctx = { hasUI: true, isIdle: () => true, ui: { setWidget, notify } } as unknown as ExtensionContext;
+  registerKiroFollowups(pi);
+  const emit = (event: string, message: Record<string, unknown>) =>
+    handlers.get(event)?.({ type: event, message }, ctx) ?? Promise.resolve();
+  const run = (args: string) => commands.get("kiro-followup")?.handler(args, ctx);
+  return { emit, run, sendUserMessage, setWidget, notify };
+}
+
+const kiroReply = {
+  role: "assistant",
+  provider: "kiro",
+  content: [],
+  followupPrompts: [{ content: "Add tests" }, { content: "Update the README" }],
+};
+
+describe("Kiro follow-up prompts", () => {
+  it("shows suggestions from the latest Kiro response", async () => {
+    const { emit, setWidget } = setup();
+
+    await emit("message_end", kiroReply);
+
+    expect(setWidget).toHaveBeenLastCalledWith("kiro-followups", [
+      "Kiro suggests (/kiro-followup <n>):",
+      "  1. Add tests",
+      "  2. Update the README",
+    ]);
+  });
+
+  it("ignores responses from other providers", async () => {
+    const { emit, setWidget } = setup();
+
+    await emit("message_end", { ...kiroReply, provider: "anthropic" });
+
+    expect(setWidget).not.toHaveBeenCalled();
+  });
+
+  it("sends the chosen suggestion as the next prompt", async () => {
+    const { emit, run, sendUserMessage } = setup();
+    await emit("message_end", kiroReply);
+
+    await run("2");
+
+    expect(sendUserMessage).toHaveBeenCalledWith("Update the README", undefined);
+  });
+
+  it("clears suggestions once the user sends a new message", async () => {
+    const { emit, run, sendUserMessage, setWidget, notify } = setup();
+    await emit("message_end", kiroReply);
+
+    await emit("message_start", { role: "user", content: "something else" });
+    await run("");
+
+    expect(setWidget).toHaveBeenLastCalledWith("kiro-followups", undefined);
+    expect(sendUserMessage).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith("No Kiro follow-up suggestions for the last response", "info");
+  });
+});
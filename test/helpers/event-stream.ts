@@ -15,6 +15,18 @@ export function encodeEventMessage(payload: object): Uint8Array {
   });
 }
 
+/** Encode a protocol-level exception frame, which the Smithy deserializer raises as an error. */
+export function encodeExceptionMessage(exceptionType: string, message: string): Uint8Array {
+  return codec.encode({
+    headers: {
+      ":exception-type": { type: "string", value: exceptionType },
+      ":message-type": { type: "string", value: "exception" },
+      ":content-type": { type: "string", value: "application/json" },
+    },
+    body: new TextEncoder().encode(JSON.stringify({ message })),
+  });
+}
+
 export function concatMessages(...msgs: Uint8Array[]): Uint8Array {
   const total = msgs.reduce((sum, m) => sum + m.length, 0);
   const result = new Uint8Array(total);
@@ -0,0 +1,316 @@
+// ABOUTME: Local stand-in for the Kiro runtime and management endpoints.
+// ABOUTME: Serves scripted turns over real AWS event-stream framing, in-process or over HTTP.
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { KiroCatalogModel } from "../../src/management.js";
+import { concatMessages, encodeEventMessage, encodeExceptionMessage } from "./event-stream.js";
+
+export type KiroSimulatorFrame =
+  | { kind: "event"; payload: Record<string, unknown> }
+  | { kind: "exception"; exceptionType: string; message: string };
+
+export type KiroSimulatorTurn =
+  | {
+      kind: "stream";
+      frames: KiroSimulatorFrame[];
+      /** Split the encoded body into chunks of this many bytes to exercise frame reassembly. */
+      chunkSize?: number;
+      /** Keep the body open after the last frame until the client cancels or aborts. */
+      stall?: boolean;
+    }
+  | { kind: "http"; status: number; statusText: string; body: string };
+
+export type KiroSimulatorOperation =
+  | "generateAssistantResponse"
+  | "ListAvailableModels"
+  | "ListAvailableProfiles"
+  | "GetUsageLimits";
+
+export interface KiroSimulatorRequest {
+  operation: KiroSimulatorOperation;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+export interface KiroSimulatorOptions {
+  profileArn?: string;
+  models?: KiroCatalogModel[];
+  usage?: Record<string, unknown>;
+}
+
+export const SIMULATOR_PROFILE_ARN = "arn:aws:codewhisperer:us-east-1:000000000000:profile/simulator";
+
+const OPERATION_PATHS: Record<string, KiroSimulatorOperation> = {
+  generateAssistantResponse: "generateAssistantResponse",
+  "List-Available-Models": "ListAvailableModels",
+  "List-Available-Profiles": "ListAvailableProfiles",
+  "Get-Usage-Limits": "GetUsageLimits",
+};
+
+const DEFAULT_MODELS: KiroCatalogModel[] = [
+  { modelId: "claude-sonnet-4.5", tokenLimits: { maxInputTokens: 200_000, maxOutputTokens: 65_536 } },
+  { modelId: "claude-haiku-4.5", tokenLimits: { maxInputTokens: 200_000, maxOutputTokens: 65_536 } },
+];
+
+const DEFAULT_USAGE: Record<string, unknown> = {
+  nextDateReset: 1775001600,
+  daysUntilReset: 6,
+  subscriptionInfo: { subscriptionTitle: "KIRO SIMULATOR" },
+  usageBreakdown: {
+    resourceType: "CREDIT",
+    displayName: "Credits",
+    currentUsage: 0,
+    currentOverages: 0,
+    usageLimit: 50,
+    unit: "CREDITS",
+    overageCharges: 0,
+  },
+};
+
+// --- Frame builders -------------------------------------------------------
+
+export const frames = {
+  text: (content: string): KiroSimulatorFrame => ({ kind: "event", payload: { content } }),
+  thinking: (text: string): KiroSimulatorFrame => ({ kind: "event", payload: { text } }),
+  thinkingSignature: (signature: string): KiroSimulatorFrame => ({ kind: "event", payload: { signature } }),
+  toolUse: (name: string, input: Record<string, unknown>, toolUseId = `tooluse_${crypto.randomUUID()}`) =>
+    [
+      { kind: "event", payload: { name, toolUseId, input: JSON.stringify(input) } },
+      { kind: "event", payload: { name, toolUseId, stop: true } },
+    ] satisfies KiroSimulatorFrame[],
+  contextUsage: (contextUsagePercentage: number): KiroSimulatorFrame => ({
+    kind: "event",
+    payload: { contextUsagePercentage },
+  }),
+  usage: (inputTokens?: number, outputTokens?: number): KiroSimulatorFrame => ({
+    kind: "event",
+    payload: { usage: { inputTokens, outputTokens } },
+  }),
+  followupPrompt: (content: string): KiroSimulatorFrame => ({
+    kind: "event",
+    payload: { followupPrompt: { content, userIntent: "SUGGEST_ALTERNATE_IMPLEMENTATION" } },
+  }),
+  error: (error: string, message?: string): KiroSimulatorFrame => ({
+    kind: "event",
+    payload: { error, ...(message ? { message } : {}) },
+  }),
+  exception: (exceptionType: string, message: string): KiroSimulatorFrame => ({
+    kind: "exception",
+    exceptionType,
+    message,
+  }),
+};
+
+// --- Turn builders --------------------------------------------------------
+
+/** A successful streamed turn. A trailing contextUsage frame is added unless one is already present. */
+export function streamTurn(
+  ...parts: Array<KiroSimulatorFrame | KiroSimulatorFrame[]>
+): Extract<KiroSimulatorTurn, { kind: "stream" }> {
+  const flat = parts.flat();
+  const hasContextUsage = flat.some((f) => f.kind === "event" && f.payload.contextUsagePercentage !== undefined);
+  return { kind: "stream", frames: hasContextUsage ? flat : [...flat, frames.contextUsage(5)] };
+}
+
+export function httpError(status: number, body: string, statusText = ""): KiroSimulatorTurn {
+  return { kind: "http", status, statusText, body };
+}
+
+export const errors = {
+  forbidden: () => httpError(403, '{"message":"The bearer token included in the request is invalid."}', "Forbidden"),
+  tooLarge: () => httpError(413, '{"message":"Request entity too large"}', "Payload Too Large"),
+  contentLengthExceeded: () =>
+    httpError(400, '{"message":"Input is too long.","reason":"CONTENT_LENGTH_EXCEEDS_THRESHOLD"}', "Bad Request"),
+  capacity: () =>
+    httpError(
+      429,
+      '{"message":"I am experiencing high traffic, please try again shortly.","reason":"INSUFFICIENT_MODEL_CAPACITY"}',
+      "Too Many Requests",
+    ),
+  quota: () =>
+    httpError(402, '{"message":"You have reached the limit.","reason":"MONTHLY_REQUEST_COUNT"}', "Payment Required"),
+};
+
+// --- Simulator ------------------------------------------------------------
+
+export class KiroSimulator {
+  readonly requests: KiroSimulatorRequest[] = [];
+  private readonly runtimeTurns: KiroSimulatorTurn[] = [];
+  private readonly managementFailures = new Map<KiroSimulatorOperation, KiroSimulatorTurn[]>();
+  private readonly profileArn: string;
+  private readonly models: KiroCatalogModel[];
+  private readonly usage: Record<string, unknown>;
+
+  constructor(options: KiroSimulatorOptions = {}) {
+    this.profileArn = options.profileArn ?? SIMULATOR_PROFILE_ARN;
+    this.models = options.models ?? DEFAULT_MODELS;
+    this.usage = options.usage ?? DEFAULT_USAGE;
+  }
+
+  /** Queue runtime turns. Once the queue drains, every request gets a plain "ok" reply. */
+  enqueue(...turns: KiroSimulatorTurn[]): this {
+    this.runtimeTurns.push(...turns);
+    return this;
+  }
+
+  /** Queue HTTP failures for a management operation, served before its normal response. */
+  failManagement(
+    operation: Exclude<KiroSimulatorOperation, "generateAssistantResponse">,
+    ...turns: KiroSimulatorTurn[]
+  ) {
+    this.managementFailures.set(operation, [...(this.managementFailures.get(operation) ?? []), ...turns]);
+    return this;
+  }
+
+  requestsFor(operation: KiroSimulatorOperation): KiroSimulatorRequest[] {
+    return this.requests.filter((r) => r.operation === operation);
+  }
+
+  /** A fetch-compatible handler, suitable for `vi.stubGlobal("fetch", simulator.fetch)`. */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    const method = init?.method ?? "GET";
+    const headers = Object.fromEntries(new Headers(init?.headers).entries());
+    const rawBody = typeof init?.body === "string" ? init.body : undefined;
+    return this.handle(url, method, headers, rawBody, init?.signal ?? undefined);
+  };
+
+  /** Serve the simulator over HTTP on localhost. Point the provider at it with KIRO_ENDPOINT_OVERRIDE. */
+  async listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const server = createServer((req, res) => {
+      void this.serveHttp(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    const address = server.address() as AddressInfo;
+    return {
+      url: `http://127.0.0.1:${address.port}/`,
+      close: () =>
+        new Promise<void>((resolve, reject) => {
+          server.closeAllConnections();
+          server.close((error) => (error ? reject(error) : resolve()));
+        }),
+    };
+  }
+
+  private async serveHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === "string") headers[name] = value;
+    }
+    const abort = new AbortController();
+    res.on("close", () => abort.abort());
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "127.0.0.1"}`);
+    const body = chunks.length > 0 ? Buffer.concat(chunks).toString("utf-8") : undefined;
+    const response = await this.handle(url, req.method ?? "GET", headers, body, abort.signal);
+
+    res.writeHead(response.status, response.statusText, Object.fromEntries(response.headers.entries()));
+    if (!response.body) {
+      res.end();
+      return;
+    }
+    const reader = response.body.getReader();
+    abort.signal.addEventListener("abort", () => void reader.cancel().catch(() => {}), { once: true });
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(value);
+      }
+    } catch {
+      // client went away
+    }
+    res.end();
+  }
+
+  private async handle(
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    rawBody: string | undefined,
+    signal: AbortSignal | undefined,
+  ): Promise<Response> {
+    if (signal?.aborted) throw signal.reason;
+    const operation = OPERATION_PATHS[url.pathname.split("/").filter(Boolean).pop() ?? ""];
+    if (!operation) return new Response(`Unknown operation ${url.pathname}`, { status: 404, statusText: "Not Found" });
+
+    let body: Record<string, unknown> | undefined;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody) as Record<string, unknown>;
+      } catch {
+        return new Response('{"message":"Improperly formed request."}', { status: 400, statusText: "Bad Request" });
+      }
+    }
+    this.requests.push({ operation, url: url.toString(), method, headers, body });
+
+    if (operation === "generateAssistantResponse") {
+      return this.respond(this.runtimeTurns.shift() ?? streamTurn(frames.text("ok")), signal);
+    }
+
+    const failure = this.managementFailures.get(operation)?.shift();
+    if (failure) return this.respond(failure, signal);
+    switch (operation) {
+      case "ListAvailableProfiles":
+        return Response.json({ profiles: [{ arn: this.profileArn, profileName: "simulator" }] });
+      case "ListAvailableModels":
+        return Response.json({ models: this.models });
+      case "GetUsageLimits":
+        return Response.json(this.usage);
+    }
+  }
+
+  private respond(turn: KiroSimulatorTurn, signal: AbortSignal | undefined): Response {
+    const requestId = `sim-request-${this.requests.length}`;
+    if (turn.kind === "http") {
+      return new Response(turn.body, {
+        status: turn.status,
+        statusText: turn.statusText,
+        headers: { "x-amzn-requestid": requestId },
+      });
+    }
+
+    const encoded = concatMessages(
+      ...turn.frames.map((f) =>
+        f.kind === "event" ? encodeEventMessage(f.payload) : encodeExceptionMessage(f.exceptionType, f.message),
+      ),
+    );
+    const chunkSize = turn.chunkSize && turn.chunkSize > 0 ? turn.chunkSize : encoded.length || 1;
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0; offset < encoded.length; offset += chunkSize) {
+      chunks.push(encoded.slice(offset, offset + chunkSize));
+    }
+
+    let release: (() => void) | undefined;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = chunks.shift();
+        if (next) {
+          controller.enqueue(next);
+          return;
+        }
+        if (turn.stall) {
+          // Hold the stream open; cancel() or the abort signal resolves this.
+          await new Promise<void>((resolve) => {
+            release = resolve;
+            signal?.addEventListener("abort", () => resolve(), { once: true });
+          });
+        }
+        if (!cancelled) controller.close();
+      },
+      cancel() {
+        cancelled = true;
+        release?.();
+      },
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { "Content-Type": "application/vnd.amazon.eventstream", "x-amzn-requestid": requestId },
+    });
+  }
+}
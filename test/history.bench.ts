@@ -0,0 +1,65 @@
+// ABOUTME: Benchmarks truncateHistory against the previous drop-one-and-resanitize loop.
+// ABOUTME: Run with `npm run bench`; the session mimics a long tool-heavy agent run.
+
+import { bench, describe } from "vitest";
+import {
+  countEntryTokens,
+  injectSyntheticToolCalls,
+  retainHistoryImages,
+  sanitizeHistory,
+  truncateHistory,
+} from "../src/history.js";
+import type { KiroHistoryEntry } from "../src/transform.js";
+
+function session(turns: number): KiroHistoryEntry[] {
+  return Array.from({ length: turns }, (_, i): KiroHistoryEntry[] => [
+    { userInputMessage: { content: `task ${i} ${"lorem ipsum ".repeat(40)}`, modelId: "M", origin: "KIRO_CLI" } },
+    {
+      assistantResponseMessage: {
+        content: `working on ${i}`,
+        toolUses: [{ name: "bash", toolUseId: `tc${i}`, input: { command: `ls ${i}` } }],
+      },
+    },
+    {
+      userInputMessage: {
+        content: "Tool results provided.",
+        modelId: "M",
+        origin: "KIRO_CLI",
+        userInputMessageContext: {
+          toolResults: [{ content: [{ text: `file${i}.ts\n`.repeat(20) }], status: "success", toolUseId: `tc${i}` }],
+        },
+      },
+    },
+    { assistantResponseMessage: { content: `done with ${i}` } },
+  ]).flat();
+}
+
+/** The algorithm truncateHistory replaced, with the same token counts. */
+function previousTruncateHistory(history: KiroHistoryEntry[], maxTokens: number): KiroHistoryEntry[] {
+  let sanitized = sanitizeHistory(retainHistoryImages(history));
+  const tokens = new Map(sanitized.map((entry) => [entry, countEntryTokens(entry)]));
+  const total = (entries: KiroHistoryEntry[]) => entries.reduce((sum, entry) => sum + (tokens.get(entry) ?? 0), 0);
+  let historyTokens = total(sanitized);
+  while (historyTokens > maxTokens && sanitized.length > 2) {
+    sanitized.shift();
+    while (sanitized.length > 0 && !sanitized[0]?.userInputMessage) sanitized.shift();
+    sanitized = sanitizeHistory(sanitized);
+    historyTokens = total(sanitized);
+  }
+  return injectSyntheticToolCalls(sanitized);
+}
+
+for (const turns of [500, 2_500]) {
+  const history = session(turns);
+  // Keep roughly the newest tenth, so most of the session is cut
+  const budget = Math.floor(history.reduce((sum, entry) => sum + countEntryTokens(entry), 0) / 10);
+
+  describe(`${turns}-turn session`, () => {
+    bench("truncateHistory", () => {
+      truncateHistory(history, budget);
+    });
+    bench("previous drop-one loop", () => {
+      previousTruncateHistory(history, budget);
+    });
+  });
+}
@@ -1,15 +1,27 @@
-import { describe, expect, it } from "vitest";
+import type { Api, Model } from "@earendil-works/pi-ai";
+import { afterEach, describe, expect, it } from "vitest";
 import {
   addPlaceholderTools,
+  countHistoryTokens,
   extractToolNamesFromHistory,
+  getOmission,
   HISTORY_LIMIT,
-  HISTORY_LIMIT_CONTEXT_WINDOW,
+  historyConfig,
+  historyImageConfig,
+  historyTokenBudget,
   injectSyntheticToolCalls,
+  pinHistoryEntry,
+  retainHistoryImages,
   sanitizeHistory,
-  stripHistoryImages,
   truncateHistory,
 } from "../src/history.js";
-import type { KiroHistoryEntry, KiroToolResult, KiroToolSpec, KiroToolUse } from "../src/transform.js";
+import type {
+  KiroHistoryEntry,
+  KiroToolResult,
+  KiroToolSpec,
+  KiroToolUse,
+  KiroUserInputMessage,
+} from "../src/transform.js";
 
 const userEntry = (content: string, toolResults?: KiroToolResult[]): KiroHistoryEntry => ({
   userInputMessage: {
@@ -136,36 +148,177 @@ describe("Feature 6: History Management", () => {
       expect(truncateHistory(h, HISTORY_LIMIT)).toHaveLength(2);
     });
 
-    it("removes oldest entries when over limit", () => {
-      const big = Array.from({ length: 100 }, (_, _i) => [
-        userEntry(`msg ${"x".repeat(10000)}`),
-        assistantEntry(`reply ${"y".repeat(10000)}`),
+    it("removes oldest entries when over the token budget", () => {
+      const big = Array.from({ length: 100 }, (_, i) => [
+        userEntry(`msg ${i} ${"lorem ipsum ".repeat(500)}`),
+        assistantEntry(`reply ${i} ${"dolor sit ".repeat(500)}`),
       ]).flat();
-      const r = truncateHistory(big, 50000);
-      expect(JSON.stringify(r).length).toBeLessThanOrEqual(50000);
-      if (r.length > 0) expect(r[0].userInputMessage).toBeDefined();
+      const r = truncateHistory(big, 20_000);
+      expect(countHistoryTokens(r)).toBeLessThanOrEqual(20_000);
+      expect(r.length).toBeLessThan(big.length);
+      expect(r[0].userInputMessage).toBeDefined();
+      expect(r.at(-1)).toBe(big.at(-1));
     });
 
-    it("scaled limit for 1M context model retains history that fixed limit would truncate", () => {
-      // Build history that exceeds HISTORY_LIMIT (850K) but fits within a 1M-scaled limit
-      const entrySize = 10000;
-      const count = Math.ceil(HISTORY_LIMIT / entrySize) + 10; // just over 850K chars
-      const big = Array.from({ length: count }, (_, i) => [
-        userEntry(`msg-${i} ${"x".repeat(entrySize)}`),
-        assistantEntry(`reply-${i} ${"y".repeat(entrySize)}`),
+    it("budgets by tokens rather than characters", () => {
+      // Repetitive code compresses to few tokens per character; CJK text to about one per character
+      const code = Array.from({ length: 10 }, () => [userEntry("    ".repeat(1_000)), assistantEntry("ok")]).flat();
+      const cjk = Array.from({ length: 10 }, () => [userEntry("漢字".repeat(250)), assistantEntry("ok")]).flat();
+      expect(JSON.stringify(code).length).toBeGreaterThan(JSON.stringify(cjk).length);
+
+      const budget = countHistoryTokens(code);
+      expect(truncateHistory(code, budget)).toHaveLength(code.length);
+      expect(truncateHistory(cjk, budget).length).toBeLessThan(cjk.length);
+    });
+  });
+
+  describe("truncateHistory invariants", () => {
+    // user → assistant(toolUse) → user(toolResult) → assistant, repeated
+    const session = (turns: number) =>
+      Array.from({ length: turns }, (_, i) => [
+        userEntry(`task ${i} ${"lorem ipsum ".repeat(50)}`),
+        assistantEntry(`working ${i}`, [{ name: "bash", toolUseId: `tc${i}`, input: { command: "ls" } }]),
+        userEntry("Tool results provided.", [{ content: [{ text: "a.ts" }], status: "success", toolUseId: `tc${i}` }]),
+        assistantEntry(`done ${i}`),
       ]).flat();
-      const serializedSize = JSON.stringify(big).length;
-      expect(serializedSize).toBeGreaterThan(HISTORY_LIMIT);
 
-      // Fixed limit truncates
-      const fixedResult = truncateHistory(big, HISTORY_LIMIT);
-      expect(fixedResult.length).toBeLessThan(big.length);
+    it("cuts only at a plain user turn, whatever the budget", () => {
+      const h = session(50);
+      for (const budget of [1_234, 5_000, 20_000]) {
+        const r = truncateHistory(h, budget);
+        // Past the pinned first turn and its marker, history is a suffix cut at a plain user turn
+        const markerAt = r.findIndex((e) => e.assistantResponseMessage?.content.endsWith("omitted]"));
+        const tail = markerAt !== -1 ? r.slice(markerAt + 1) : r.length < h.length ? r.slice(1) : r;
+        expect(tail[0].userInputMessage?.userInputMessageContext?.toolResults).toBeUndefined();
+        expect(tail[0].userInputMessage?.content).toMatch(/^task \d+/);
+        expect(tail).toEqual(h.slice(h.indexOf(tail[0] as KiroHistoryEntry)));
+      }
+    });
 
-      // Scaled limit for 1M context window retains everything
-      const scaledLimit = Math.floor((1_000_000 / HISTORY_LIMIT_CONTEXT_WINDOW) * HISTORY_LIMIT);
-      expect(scaledLimit).toBe(4_250_000);
-      const scaledResult = truncateHistory(big, scaledLimit);
-      expect(scaledResult.length).toBe(big.length);
+    it("keeps the first turn and an omission marker when nothing fits", () => {
+      const h = session(3);
+      expect(truncateHistory(h, 0)).toEqual([h[0], assistantEntry("[3 earlier turns omitted]")]);
+    });
+
+    it("keeps every tool use paired with its results", () => {
+      const r = truncateHistory(session(50), 3_000);
+      const uses = r.flatMap((e) => e.assistantResponseMessage?.toolUses?.map((t) => t.toolUseId) ?? []);
+      const results = r.flatMap(
+        (e) => e.userInputMessage?.userInputMessageContext?.toolResults?.map((t) => t.toolUseId) ?? [],
+      );
+      expect(results).toEqual(uses);
+    });
+
+    it("still injects synthetic tool calls for results with unknown ids", () => {
+      const h = [
+        userEntry("hi"),
+        assistantEntry("calling", [{ name: "bash", toolUseId: "tcA", input: {} }]),
+        userEntry("Tool results provided.", [{ content: [{ text: "x" }], status: "success", toolUseId: "tcB" }]),
+        assistantEntry("ok"),
+      ];
+      const r = truncateHistory(h, 1_000_000);
+      const synthetic = r.find((e) => e.assistantResponseMessage?.toolUses?.[0].name === "unknown_tool");
+      expect(synthetic?.assistantResponseMessage?.toolUses?.[0].toolUseId).toBe("tcB");
+    });
+  });
+
+  describe("truncateHistory pinning", () => {
+    const turns = (count: number) =>
+      Array.from({ length: count }, (_, i) => [
+        userEntry(`turn ${i} ${"lorem ipsum ".repeat(100)}`),
+        assistantEntry(`reply ${i} ${"dolor sit ".repeat(100)}`),
+      ]).flat();
+
+    it("keeps the first user turn and elides the middle with a marker", () => {
+      const h = turns(10);
+      const r = truncateHistory(h, 1_500);
+      const keptTurns = r.filter((e) => e.userInputMessage).length;
+
+      expect(r[0]).toBe(h[0]);
+      expect(r[1]).toEqual(assistantEntry(`[${11 - keptTurns} earlier turns omitted]`));
+      expect(r.at(-1)).toBe(h.at(-1));
+      expect(countHistoryTokens(r)).toBeLessThanOrEqual(1_500);
+    });
+
+    it("keeps pinned turns, with a marker for each elided run", () => {
+      const h = turns(10);
+      pinHistoryEntry(h[8]);
+      const r = truncateHistory(h, 0);
+
+      expect(r.map((e) => e.userInputMessage?.content.slice(0, 7) ?? e.assistantResponseMessage?.content)).toEqual([
+        "turn 0 ",
+        "[4 earlier turns omitted]",
+        "turn 4 ",
+        "[5 earlier turns omitted]",
+        "turn 9 ",
+        expect.stringMatching(/^reply 9/),
+      ]);
+    });
+
+    it("leaves a marker when only the first turn's reply is dropped, so user turns never meet", () => {
+      const h = turns(3);
+      // Dropping "reply 0" alone is enough to fit
+      const r = truncateHistory(h, countHistoryTokens(h) - 1);
+
+      expect(r).toEqual([h[0], assistantEntry("[1 earlier turn omitted]"), ...h.slice(2)]);
+      expect(getOmission(r[1])?.omitted).toEqual([h[1]]);
+    });
+
+    it("keeps a pinned turn along with its images", () => {
+      const h = turns(6);
+      const images = [{ format: "png", source: { bytes: "screenshot" } }];
+      h[4] = { userInputMessage: { ...(h[4].userInputMessage as KiroUserInputMessage), images } };
+      pinHistoryEntry(h[4]);
+      const r = truncateHistory(h, 0);
+
+      expect(r.some((e) => e.userInputMessage?.content.startsWith("turn 2"))).toBe(true);
+      expect(r[2].userInputMessage?.images).toEqual(images);
+    });
+
+    it("folds earlier markers into the count when truncating again", () => {
+      const h = turns(12);
+      const once = truncateHistory(h, 2_500);
+      const twice = truncateHistory(once, 800);
+
+      const keptTurns = twice.filter((e) => e.userInputMessage).length;
+
+      expect(once.length).toBeGreaterThan(twice.length);
+      expect(twice[0]).toBe(h[0]);
+      expect(twice[1]).toEqual(assistantEntry(`[${13 - keptTurns} earlier turns omitted]`));
+    });
+
+    it("remembers the original entries behind a marker, across repeated truncation", () => {
+      const h = turns(12);
+      const twice = truncateHistory(truncateHistory(h, 2_500), 800);
+      const omission = getOmission(twice[1]);
+      const keptTurns = twice.filter((e) => e.userInputMessage).length;
+
+      expect(omission?.turns).toBe(13 - keptTurns);
+      expect(omission?.omitted).toEqual(h.slice(1, 2 * (13 - keptTurns)));
+      expect(getOmission(twice[0])).toBeUndefined();
+    });
+  });
+
+  describe("historyTokenBudget", () => {
+    const model = (contextWindow: number, maxTokens: number) => ({ contextWindow, maxTokens }) as Model<Api>;
+
+    afterEach(() => {
+      delete historyConfig.maxTokens;
+    });
+
+    it("reserves the output allowance and the tool catalog", () => {
+      expect(historyTokenBudget(model(200_000, 64_000), 6_000)).toBe(130_000);
+    });
+
+    it("lets 1M-context models use their whole window", () => {
+      expect(historyTokenBudget(model(1_000_000, 64_000), 0)).toBe(936_000);
+    });
+
+    it("honors a configured cap and never goes negative", () => {
+      historyConfig.maxTokens = 50_000;
+      expect(historyTokenBudget(model(1_000_000, 64_000), 0)).toBe(50_000);
+      delete historyConfig.maxTokens;
+      expect(historyTokenBudget(model(8_000, 16_000), 0)).toBe(0);
     });
   });
 
@@ -185,29 +338,29 @@ describe("Feature 6: History Management", () => {
     });
   });
 
-  describe("stripHistoryImages", () => {
-    it("removes images from user input messages in history", () => {
-      const h: KiroHistoryEntry[] = [
-        {
-          userInputMessage: {
-            content: "Look at this image",
-            modelId: "M",
-            origin: "KIRO_CLI",
-            images: [{ format: "png", source: { bytes: "base64data" } }],
-          },
-        },
-        assistantEntry("I see the image"),
-      ];
-      const stripped = stripHistoryImages(h);
-      expect(stripped[0].userInputMessage?.images).toBeUndefined();
-      expect(stripped[0].userInputMessage?.content).toBe("Look at this image");
-      expect(stripped[1].assistantResponseMessage?.content).toBe("I see the image");
+  describe("retainHistoryImages", () => {
+    const image = (bytes: string) => ({ format: "png", source: { bytes } });
+    const imageEntry = (content: string, ...images: ReturnType<typeof image>[]): KiroHistoryEntry => ({
+      userInputMessage: { content, modelId: "M", origin: "KIRO_CLI", images },
+    });
+
+    afterEach(() => {
+      historyImageConfig.maxImages = 0;
+      delete historyImageConfig.maxBytes;
+    });
+
+    it("replaces history images with a placeholder by default", () => {
+      const h: KiroHistoryEntry[] = [imageEntry("Look at this image", image("base64data")), assistantEntry("I see it")];
+      const retained = retainHistoryImages(h);
+      expect(retained[0].userInputMessage?.images).toBeUndefined();
+      expect(retained[0].userInputMessage?.content).toBe("Look at this image\n\n[image omitted]");
+      expect(retained[1]).toBe(h[1]);
     });
 
     it("preserves entries without images unchanged", () => {
       const h: KiroHistoryEntry[] = [userEntry("hello"), assistantEntry("hi")];
-      const stripped = stripHistoryImages(h);
-      expect(stripped).toEqual(h);
+      const retained = retainHistoryImages(h);
+      expect(retained).toEqual(h);
     });
 
     it("removes images from tool result messages in history", () => {
@@ -219,27 +372,62 @@ describe("Feature 6: History Management", () => {
             content: "Tool results provided.",
             modelId: "M",
             origin: "KIRO_CLI",
-            images: [{ format: "png", source: { bytes: "screenshot-data" } }],
+            images: [image("screenshot-data"), image("other-data")],
             userInputMessageContext: {
               toolResults: [{ toolUseId: "tc1", content: [{ text: "ok" }], status: "success" as const }],
             },
           },
         },
       ];
-      const stripped = stripHistoryImages(h);
-      expect(stripped[2].userInputMessage?.images).toBeUndefined();
-      expect(stripped[2].userInputMessage?.userInputMessageContext?.toolResults).toHaveLength(1);
+      const retained = retainHistoryImages(h);
+      expect(retained[2].userInputMessage?.images).toBeUndefined();
+      expect(retained[2].userInputMessage?.content).toBe("Tool results provided.\n\n[2 images omitted]");
+      expect(retained[2].userInputMessage?.userInputMessageContext?.toolResults).toHaveLength(1);
+    });
+
+    it("keeps the newest images up to maxImages", () => {
+      historyImageConfig.maxImages = 2;
+      const h = [imageEntry("a", image("one")), imageEntry("b", image("two"), image("three"))];
+      const retained = retainHistoryImages(h);
+      expect(retained[0].userInputMessage?.content).toBe("a\n\n[image omitted]");
+      expect(retained[1]).toBe(h[1]);
+    });
+
+    it("stops keeping images once the byte budget is spent", () => {
+      historyImageConfig.maxImages = 10;
+      historyImageConfig.maxBytes = 1_000;
+      const h = [imageEntry("a", image("x".repeat(800))), imageEntry("b", image("y".repeat(800)))];
+      const retained = retainHistoryImages(h);
+      expect(retained[0].userInputMessage?.images).toBeUndefined();
+      expect(retained[1].userInputMessage?.images).toHaveLength(1);
+    });
+
+    it("keeps images in pinned turns regardless of the budget", () => {
+      const h = [imageEntry("pinned", image("one")), imageEntry("later", image("two"))];
+      pinHistoryEntry(h[0]);
+      const retained = retainHistoryImages(h);
+      expect(retained[0]).toBe(h[0]);
+      expect(retained[1].userInputMessage?.images).toBeUndefined();
+    });
+
+    it("drops earlier copies of an image that is kept later", () => {
+      historyImageConfig.maxImages = 5;
+      const h = [imageEntry("first", image("same")), imageEntry("again", image("same"), image("new"))];
+      const retained = retainHistoryImages(h);
+      expect(retained[0].userInputMessage?.content).toBe("first\n\n[image omitted]");
+      expect(retained[1].userInputMessage?.images).toEqual([image("same"), image("new")]);
     });
 
     it("does not mutate the original history array", () => {
-      const images = [{ format: "png", source: { bytes: "data" } }];
+      const images = [image("data")];
       const h: KiroHistoryEntry[] = [
         {
           userInputMessage: { content: "hi", modelId: "M", origin: "KIRO_CLI", images },
         },
       ];
-      stripHistoryImages(h);
+      retainHistoryImages(h);
       expect(h[0].userInputMessage?.images).toEqual(images);
+      expect(h[0].userInputMessage?.content).toBe("hi");
     });
   });
 
@@ -259,7 +447,7 @@ describe("Feature 6: History Management", () => {
         assistantEntry("welcome"),
       ];
       const result = truncateHistory(h, HISTORY_LIMIT);
-      // All image data should be stripped from history
+      // By default all image data is stripped from history
       for (const entry of result) {
         expect(entry.userInputMessage?.images).toBeUndefined();
       }
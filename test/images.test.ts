@@ -0,0 +1,269 @@
+import type { Api, Context, ImageContent, Model } from "@earendil-works/pi-ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const codecs = vi.hoisted(() => ({ resizeImage: vi.fn(), convertToPng: vi.fn() }));
+vi.mock("@earendil-works/pi-coding-agent", () => codecs);
+
+import {
+  IMAGE_MAX_BYTES,
+  IMAGE_MAX_DIMENSION,
+  imageConfig,
+  prepareContextImages,
+  prepareImage,
+  readImageSize,
+  replaceImagesForTextModel,
+  resetPreparedImages,
+  sniffImageFormat,
+  UNUSABLE_IMAGE_NOTE,
+} from "../src/images.js";
+
+function png(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes);
+  bytes.write("IHDR", 12, "latin1");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof = Buffer.alloc(11);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(9, 2);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+function gif(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(13);
+  bytes.write("GIF89a", 0, "latin1");
+  bytes.writeUInt16LE(width, 6);
+  bytes.writeUInt16LE(height, 8);
+  return bytes;
+}
+
+function webp(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(30);
+  bytes.write("RIFF", 0, "latin1");
+  bytes.write("WEBP", 8, "latin1");
+  bytes.write("VP8X", 12, "latin1");
+  bytes.writeUIntLE(width - 1, 24, 3);
+  bytes.writeUIntLE(height - 1, 27, 3);
+  return bytes;
+}
+
+const image = (bytes: Buffer, mimeType = "image/png"): ImageContent => ({
+  type: "image",
+  data: bytes.toString("base64"),
+  mimeType,
+});
+
+describe("image headers", () => {
+  it("recognizes each format Kiro accepts by its signature", () => {
+    expect(sniffImageFormat(png(1, 1))).toBe("png");
+    expect(sniffImageFormat(jpeg(1, 1))).toBe("jpeg");
+    expect(sniffImageFormat(gif(1, 1))).toBe("gif");
+    expect(sniffImageFormat(webp(1, 1))).toBe("webp");
+    expect(sniffImageFormat(Buffer.from("BM not an image"))).toBeUndefined();
+  });
+
+  it("reads dimensions without decoding", () => {
+    expect(readImageSize(png(640, 480), "png")).toEqual({ width: 640, height: 480 });
+    expect(readImageSize(jpeg(1920, 1080), "jpeg")).toEqual({ width: 1920, height: 1080 });
+    expect(readImageSize(gif(32, 16), "gif")).toEqual({ width: 32, height: 16 });
+    expect(readImageSize(webp(3000, 2000), "webp")).toEqual({ width: 3000, height: 2000 });
+    expect(readImageSize(png(1, 1).subarray(0, 12), "png")).toBeUndefined();
+  });
+});
+
+describe("prepareImage", () => {
+  afterEach(() => {
+    resetPreparedImages();
+    codecs.resizeImage.mockReset();
+    codecs.convertToPng.mockReset();
+    imageConfig.maxDimension = IMAGE_MAX_DIMENSION;
+    imageConfig.maxBytes = IMAGE_MAX_BYTES;
+  });
+
+  it("passes small images through, correcting a wrong MIME type", async () => {
+    const prepared = await prepareImage(image(jpeg(800, 600), "image/png"));
+
+    expect(prepared).toEqual(image(jpeg(800, 600), "image/jpeg"));
+    expect(codecs.resizeImage).not.toHaveBeenCalled();
+  });
+
+  it("downscales images past the dimension limit", async () => {
+    codecs.resizeImage.mockResolvedValue({
+      data: "c21hbGw=",
+      mimeType: "image/jpeg",
+      originalWidth: 4000,
+      originalHeight: 3000,
+      width: 1568,
+      height: 1176,
+      wasResized: true,
+    });
+
+    const prepared = await prepareImage(image(png(4000, 3000)));
+
+    expect(codecs.resizeImage).toHaveBeenCalledWith(expect.any(Buffer), "image/png", {
+      maxWidth: IMAGE_MAX_DIMENSION,
+      maxHeight: IMAGE_MAX_DIMENSION,
+      maxBytes: IMAGE_MAX_BYTES,
+    });
+    expect(prepared).toMatchObject({ data: "c21hbGw=", mimeType: "image/jpeg" });
+  });
+
+  it("re-encodes images past the byte limit", async () => {
+    imageConfig.maxBytes = 10;
+    codecs.resizeImage.mockResolvedValue(null);
+
+    expect(await prepareImage(image(png(10, 10)))).toBeNull();
+    expect(codecs.resizeImage).toHaveBeenCalledTimes(1);
+  });
+
+  it("converts unsupported formats to PNG before checking limits", async () => {
+    codecs.convertToPng.mockResolvedValue({ data: png(100, 100).toString("base64"), mimeType: "image/png" });
+
+    const prepared = await prepareImage(image(Buffer.from("BM bitmap bytes"), "image/bmp"));
+
+    expect(prepared).toEqual(image(png(100, 100)));
+  });
+
+  it("gives up on images no codec can read", async () => {
+    codecs.convertToPng.mockResolvedValue(null);
+
+    expect(await prepareImage(image(Buffer.from("garbage"), "image/tiff"))).toBeNull();
+  });
+
+  it("processes each distinct image once", async () => {
+    codecs.convertToPng.mockResolvedValue(null);
+    const garbage = image(Buffer.from("garbage"));
+
+    await prepareImage(garbage);
+    await prepareImage({ ...garbage });
+
+    expect(codecs.convertToPng).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("prepareContextImages", () => {
+  afterEach(() => {
+    resetPreparedImages();
+    codecs.convertToPng.mockReset();
+  });
+
+  it("replaces unusable images with a note and leaves text-only messages alone", async () => {
+    codecs.convertToPng.mockResolvedValue(null);
+    const text = { role: "user" as const, content: "hello", timestamp: 1 };
+    const context: Context = {
+      messages: [
+        text,
+        {
+          role: "toolResult",
+          toolCallId: "t1",
+          toolName: "screenshot",
+          content: [{ type: "text", text: "done" }, image(Buffer.from("garbage"))],
+          isError: false,
+          timestamp: 2,
+        },
+        { role: "user", content: [image(gif(10, 10), "image/gif")], timestamp: 3 },
+      ],
+    };
+
+    const prepared = await prepareContextImages(context);
+
+    expect(prepared.messages[0]).toBe(text);
+    expect(prepared.messages[1]).toMatchObject({
+      content: [
+        { type: "text", text: "done" },
+        { type: "text", text: UNUSABLE_IMAGE_NOTE },
+      ],
+    });
+    expect(prepared.messages[2]).toBe(context.messages[2]);
+  });
+
+  it("returns the same context when there are no images", async () => {
+    const context: Context = { messages: [{ role: "user", content: [{ type: "text", text: "hi" }], timestamp: 1 }] };
+
+    expect(await prepareContextImages(context)).toBe(context);
+  });
+});
+
+describe("replaceImagesForTextModel", () => {
+  const textModel = {
+    id: "deepseek-3-2",
+    baseUrl: "https://runtime.us-east-1.kiro.dev/",
+    input: ["text"],
+  } as unknown as Model<Api>;
+  const screenshot = image(png(1280, 720));
+  const context: Context = {
+    messages: [
+      { role: "user", content: [{ type: "text", text: "old" }, screenshot], timestamp: 1 },
+      {
+        role: "assistant",
+        content: [{ type: "text", text: "ok" }],
+        api: "kiro-api",
+        provider: "kiro",
+        model: "deepseek-3-2",
+        usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: {} },
+        stopReason: "stop",
+        timestamp: 2,
+      } as Context["messages"][number],
+      { role: "user", content: [{ type: "text", text: "new" }, image(gif(10, 10), "image/gif")], timestamp: 3 },
+    ],
+  };
+
+  afterEach(() => {
+    resetPreparedImages();
+    delete imageConfig.captionModel;
+  });
+
+  it("replaces images with placeholders and counts only this turn's", async () => {
+    const complete = vi.fn();
+
+    const { context: replaced, newImages } = await replaceImagesForTextModel(context, textModel, complete);
+
+    expect(newImages).toBe(1);
+    expect(replaced.messages[0].content).toEqual([
+      { type: "text", text: "old" },
+      { type: "text", text: "[image not shown: a 1280x720 PNG; deepseek-3-2 reads text only]" },
+    ]);
+    expect(replaced.messages[1]).toBe(context.messages[1]);
+    expect(JSON.stringify(replaced)).not.toContain('"type":"image"');
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("adds a caption from the configured vision model, once per image", async () => {
+    imageConfig.captionModel = "claude-haiku-4-5";
+    const complete = vi.fn(async (_model: Model<Api>, _context: Context) => "A terminal showing a stack trace.");
+
+    await replaceImagesForTextModel(context, textModel, complete);
+    const { context: replaced } = await replaceImagesForTextModel(context, textModel, complete);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[0][0]).toMatchObject({ id: "claude-haiku-4-5", baseUrl: textModel.baseUrl });
+    expect(complete.mock.calls[0][1].messages[0].content).toEqual([screenshot]);
+    expect(replaced.messages[0].content).toContainEqual({
+      type: "text",
+      text: "[image not shown: a 1280x720 PNG; deepseek-3-2 reads text only]\nDescription by claude-haiku-4-5: A terminal showing a stack trace.",
+    });
+  });
+
+  it("falls back to the plain placeholder when captioning fails", async () => {
+    imageConfig.captionModel = "claude-haiku-4-5";
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const complete = vi.fn(async () => {
+      throw new Error("capacity");
+    });
+
+    const { context: replaced } = await replaceImagesForTextModel(context, textModel, complete);
+
+    expect((replaced.messages[2].content as { text: string }[])[1].text).toBe(
+      "[image not shown: a 10x10 GIF; deepseek-3-2 reads text only]",
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("capacity"));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { CHARS_PER_TOKEN, IMAGE_TOKEN_ESTIMATE } from "../src/history.js";
+import { estimateKiroRequest, MAX_REQUEST_BYTES, preflightConfig, preflightKiroRequest } from "../src/preflight.js";
+import type { KiroRequest } from "../src/request.js";
+import type { KiroHistoryEntry } from "../src/transform.js";
+
+function makeHistory(turns: number, chars: number): KiroHistoryEntry[] {
+  return Array.from({ length: turns }, (_, i) => [
+    { userInputMessage: { content: `q${i} ${"x".repeat(chars)}`, modelId: "m", origin: "KIRO_CLI" as const } },
+    { assistantResponseMessage: { content: `a${i} ${"y".repeat(chars)}` } },
+  ]).flat();
+}
+
+function makeRequest(history: KiroHistoryEntry[], content = "Hello"): KiroRequest {
+  return {
+    conversationState: {
+      chatTriggerType: "MANUAL",
+      agentTaskType: "vibe",
+      conversationId: "c1",
+      currentMessage: { userInputMessage: { content, modelId: "m", origin: "KIRO_CLI" } },
+      ...(history.length > 0 ? { history } : {}),
+    },
+    profileArn: "arn",
+    agentMode: "vibe",
+  };
+}
+
+describe("estimateKiroRequest", () => {
+  it("counts text by characters and images at a flat rate", () => {
+    const request = makeRequest([]);
+    request.conversationState.currentMessage.userInputMessage.images = [
+      { format: "png", source: { bytes: "a".repeat(40_000) } },
+    ];
+    const body = JSON.stringify(request);
+
+    const estimate = estimateKiroRequest(request);
+
+    expect(estimate.bytes).toBe(Buffer.byteLength(body));
+    expect(estimate.images).toBe(1);
+    expect(estimate.tokens).toBe(Math.ceil((body.length - 40_000) / CHARS_PER_TOKEN) + IMAGE_TOKEN_ESTIMATE);
+  });
+});
+
+describe("preflightKiroRequest", () => {
+  afterEach(() => {
+    preflightConfig.maxBytes = MAX_REQUEST_BYTES;
+  });
+
+  it("leaves a request that fits untouched", () => {
+    const request = makeRequest(makeHistory(3, 100));
+
+    const result = preflightKiroRequest(request, 200_000);
+
+    expect(result.request).toBe(request);
+    expect(result.droppedHistoryEntries).toBe(0);
+    expect(result.overflow).toBeUndefined();
+  });
+
+  it("drops the oldest history until the token estimate fits", () => {
+    const request = makeRequest(makeHistory(10, 4_000));
+
+    const result = preflightKiroRequest(request, 5_000);
+
+    expect(result.overflow).toBeUndefined();
+    expect(result.estimate.tokens).toBeLessThanOrEqual(5_000);
+    expect(result.droppedHistoryEntries).toBeGreaterThan(0);
+    const history = result.request.conversationState.history ?? [];
+    expect(history[history.length - 1]).toEqual(request.conversationState.history?.at(-1));
+    expect(history[0].userInputMessage).toBeDefined();
+  });
+
+  it("drops history to fit the body ceiling", () => {
+    preflightConfig.maxBytes = 20_000;
+    const request = makeRequest(makeHistory(10, 2_000));
+
+    const result = preflightKiroRequest(request, 1_000_000);
+
+    expect(result.overflow).toBeUndefined();
+    expect(result.estimate.bytes).toBeLessThanOrEqual(20_000);
+  });
+
+  it("is deterministic", () => {
+    const request = makeRequest(makeHistory(10, 4_000));
+
+    expect(preflightKiroRequest(request, 5_000)).toEqual(preflightKiroRequest(request, 5_000));
+  });
+
+  it("reports the overflow when the current message alone is too large", () => {
+    const request = makeRequest(makeHistory(2, 100), "z".repeat(100_000));
+
+    const result = preflightKiroRequest(request, 10_000);
+
+    expect(result.overflow).toContain("10000-token context window");
+    // The pinned first turn, a marker for its reply, and the last exchange are all that is left
+    expect(result.request.conversationState.history?.map((e) => e.userInputMessage?.content.slice(0, 2))).toEqual([
+      "q0",
+      undefined,
+      "q1",
+      undefined,
+    ]);
+  });
+});
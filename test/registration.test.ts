@@ -1,11 +1,18 @@
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import { describe, expect, it, vi } from "vitest";
 import { getKiroCliCredentials } from "../src/kiro-cli.js";
 import { kiroModels } from "../src/models.js";
+import { retryConfig } from "../src/retry.js";
 
 const mockPi = () => {
   const registerProvider = vi.fn();
-  return { pi: { registerProvider, on: vi.fn() } as unknown as ExtensionAPI, registerProvider };
+  return {
+    pi: { registerProvider, on: vi.fn(), registerCommand: vi.fn() } as unknown as ExtensionAPI,
+    registerProvider,
+  };
 };
 
 describe("Feature 1: Extension Registration", () => {
@@ -47,6 +54,26 @@ describe("Feature 1: Extension Registration", () => {
     expect(typeof config.oauth.fetchUsage).toBe("function");
   });
 
+  it("reports invalid settings and keeps the defaults", async () => {
+    const mod = await import("../src/index.js");
+    const { pi, registerProvider } = mockPi();
+    const settingsFile = join(homedir(), ".pi", "kiro.json");
+    mkdirSync(join(homedir(), ".pi"), { recursive: true });
+    writeFileSync(settingsFile, JSON.stringify({ maxRetries: "lots" }));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      mod.default(pi);
+
+      expect(registerProvider).toHaveBeenCalledOnce();
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("maxRetries must be a non-negative integer"));
+      expect(retryConfig.maxRetries).toBe(3);
+    } finally {
+      consoleError.mockRestore();
+      rmSync(settingsFile, { force: true });
+    }
+  });
+
   it("registers a streamSimple handler", async () => {
     const mod = await import("../src/index.js");
     const { pi, registerProvider } = mockPi();
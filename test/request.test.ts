@@ -0,0 +1,118 @@
+import type { Api, Context, Model } from "@earendil-works/pi-ai";
+import { describe, expect, it } from "vitest";
+import { DRY_RUN_PROFILE_ARN, renderKiroRequest } from "../src/request.js";
+
+function makeModel(overrides?: Record<string, unknown>): Model<Api> {
+  return {
+    id: "claude-sonnet-4-5",
+    name: "Sonnet",
+    api: "kiro-api",
+    provider: "kiro",
+    baseUrl: "https://runtime.us-east-1.kiro.dev/generateAssistantResponse",
+    reasoning: true,
+    input: ["text", "image"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 200000,
+    maxTokens: 65536,
+    ...overrides,
+  } as Model<Api>;
+}
+
+const context: Context = {
+  systemPrompt: "You are helpful",
+  messages: [
+    { role: "user", content: "Read the file", timestamp: 1 },
+    {
+      role: "assistant",
+      content: [{ type: "toolCall", id: "tc1", name: "read", arguments: { path: "a.ts" } }],
+      api: "kiro-api",
+      provider: "kiro",
+      model: "claude-sonnet-4-5",
+      usage: {
+        input: 0,
+        output: 0,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: 0,
+        cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+      },
+      stopReason: "toolUse",
+      timestamp: 2,
+    },
+    {
+      role: "toolResult",
+      toolCallId: "tc1",
+      toolName: "read",
+      content: [{ type: "text", text: "export const a = 1;" }],
+      isError: false,
+      timestamp: 3,
+    },
+  ],
+  tools: [],
+};
+
+describe("renderKiroRequest", () => {
+  it("renders the request that would be sent", () => {
+    const dryRun = renderKiroRequest(makeModel(), context, { sessionId: "session-1" });
+
+    expect(dryRun.endpoint).toBe("https://runtime.us-east-1.kiro.dev/generateAssistantResponse");
+    const { conversationState } = dryRun.request;
+    expect(conversationState.conversationId).toBe("session-1");
+    expect(conversationState.history?.[0].userInputMessage?.content).toContain("Read the file");
+    expect(conversationState.history?.[1].assistantResponseMessage?.toolUses?.[0].name).toBe("read");
+    const current = conversationState.currentMessage.userInputMessage;
+    expect(current.userInputMessageContext?.toolResults?.[0].content[0].text).toBe("export const a = 1;");
+    // History references "read" with no declared tools, so a placeholder spec is added
+    expect(current.userInputMessageContext?.tools?.[0].toolSpecification.name).toBe("read");
+  });
+
+  it("re-sends the model's own signed thinking with its tool call", () => {
+    const [first, reply, result] = context.messages;
+    const thinking = { type: "thinking" as const, thinking: "Read it first.", thinkingSignature: "sig" };
+    const signed = { ...reply, content: [thinking, ...(reply.content as [])] } as Context["messages"][number];
+
+    const own = renderKiroRequest(makeModel(), { ...context, messages: [first, signed, result] });
+    const other = renderKiroRequest(makeModel({ id: "claude-opus-4-8" }), {
+      ...context,
+      messages: [first, signed, result],
+    });
+
+    expect(own.request.conversationState.history?.[1].assistantResponseMessage).toMatchObject({
+      content: "<thinking>Read it first.</thinking>\n\n",
+      reasoningContent: { reasoningText: { text: "Read it first.", signature: "sig" } },
+    });
+    expect(other.request.conversationState.history?.[1].assistantResponseMessage).toMatchObject({
+      content: "<thinking>Read it first.</thinking>\n\n",
+    });
+    expect(other.request.conversationState.history?.[1].assistantResponseMessage).not.toHaveProperty(
+      "reasoningContent",
+    );
+  });
+
+  it("applies the thinking markers to the system prompt", () => {
+    const dryRun = renderKiroRequest(makeModel(), context, { reasoning: "high" });
+
+    expect(dryRun.request.conversationState.history?.[0].userInputMessage?.content).toContain(
+      "<max_thinking_length>30000</max_thinking_length>",
+    );
+  });
+
+  it("reports the body size and token estimates", () => {
+    const dryRun = renderKiroRequest(makeModel(), context);
+
+    expect(dryRun.bytes).toBe(Buffer.byteLength(JSON.stringify(dryRun.request)));
+    const { history, currentMessage, tools, total } = dryRun.estimatedTokens;
+    expect(history).toBeGreaterThan(0);
+    expect(currentMessage).toBeGreaterThan(0);
+    expect(tools).toBeGreaterThan(0);
+    expect(total).toBe(history + currentMessage + tools + dryRun.estimatedTokens.images);
+    expect(dryRun.imageCount).toBe(0);
+    expect(dryRun.droppedHistoryEntries).toBe(0);
+  });
+
+  it("uses a placeholder profile ARN unless the model or options carry one", () => {
+    expect(renderKiroRequest(makeModel(), context).request.profileArn).toBe(DRY_RUN_PROFILE_ARN);
+    const arn = "arn:aws:codewhisperer:us-east-1:123456789012:profile/abc";
+    expect(renderKiroRequest(makeModel({ kiroProfileArn: arn }), context).request.profileArn).toBe(arn);
+  });
+});
@@ -5,6 +5,7 @@ import { describe, expect, it } from "vitest";
 import {
   exponentialBackoff,
   FIRST_TOKEN_TIMEOUT,
+  firstTokenTimeoutForModel,
   isCapacityError,
   isNonRetryableBodyError,
   isTooBigError,
@@ -99,8 +100,19 @@ describe("FIRST_TOKEN_TIMEOUT", () => {
     expect(FIRST_TOKEN_TIMEOUT).toBe(90000);
   });
 
-  it("retryConfig.firstTokenTimeoutMs defaults to FIRST_TOKEN_TIMEOUT", () => {
-    expect(retryConfig.firstTokenTimeoutMs).toBe(FIRST_TOKEN_TIMEOUT);
+  it("retryConfig.firstTokenTimeoutMs is unset by default, leaving the per-model timeouts", () => {
+    expect(retryConfig.firstTokenTimeoutMs).toBeUndefined();
+    expect(firstTokenTimeoutForModel("claude-opus-4-8")).toBe(180_000);
+    expect(firstTokenTimeoutForModel("no-such-model")).toBe(FIRST_TOKEN_TIMEOUT);
+  });
+
+  it("an override equal to the 90s default still replaces a longer model timeout", () => {
+    retryConfig.firstTokenTimeoutMs = FIRST_TOKEN_TIMEOUT;
+    try {
+      expect(firstTokenTimeoutForModel("claude-opus-4-8")).toBe(FIRST_TOKEN_TIMEOUT);
+    } finally {
+      delete retryConfig.firstTokenTimeoutMs;
+    }
   });
 
   it("retryConfig.firstTokenTimeoutMs is mutable for testing", () => {
@@ -0,0 +1,216 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { regionConfig, resolveApiRegion } from "../src/endpoints.js";
+import { fallbackConfig } from "../src/fallback.js";
+import { historyConfig, historyImageConfig } from "../src/history.js";
+import { imageConfig } from "../src/images.js";
+import { modelCacheConfig } from "../src/models.js";
+import { preflightConfig } from "../src/preflight.js";
+import { capacityBreakerConfig, capacityRetryConfig, retryConfig } from "../src/retry.js";
+import {
+  applyKiroSettings,
+  globalSettingsPath,
+  KiroSettingsError,
+  loadKiroSettings,
+  validateKiroSettings,
+} from "../src/settings.js";
+import { summaryConfig } from "../src/summary.js";
+import { thinkingHistoryConfig, toolResultConfig } from "../src/transform.js";
+
+function writeJson(file: string, value: unknown): void {
+  mkdirSync(join(file, ".."), { recursive: true });
+  writeFileSync(file, typeof value === "string" ? value : JSON.stringify(value));
+}
+
+describe("validateKiroSettings", () => {
+  it("accepts every documented setting", () => {
+    const settings = {
+      firstTokenTimeoutMs: 180_000,
+      idleTimeoutMs: 600_000,
+      maxRetries: 5,
+      capacityMaxRetries: 0,
+      capacityBaseDelayMs: 2_000,
+      capacityBreakerThreshold: 6,
+      capacityBreakerCooldownMs: 30_000,
+      historyMaxTokens: 500_000,
+      historyMaxImages: 0,
+      historyMaxImageBytes: 5_000_000,
+      imageMaxDimension: 2_000,
+      imageMaxBytes: 3_000_000,
+      imageCaptionModel: "claude-haiku-4-5",
+      toolResultLimit: 500_000,
+      thinkingHistoryFallback: "drop",
+      modelCacheMaxAgeMs: 0,
+      maxRequestBytes: 4_000_000,
+      historySummaries: true,
+      historySummaryModel: "claude-haiku-4-5",
+      regionMap: { "ap-southeast-2": "us-east-1" },
+      modelFallbacks: [["claude-opus-4-8", "claude-sonnet-5"]],
+    };
+
+    expect(validateKiroSettings(settings, "kiro.json")).toEqual(settings);
+  });
+
+  it("reports every problem with the file name", () => {
+    const invalid = {
+      idleTimeoutMs: "5m",
+      maxRetries: -1,
+      historyMaxTokens: 1.5,
+      historySummaries: "yes",
+      thinkingHistoryFallback: "tags",
+      regionMap: { "eu-west-1": "" },
+      modelFallbacks: [["claude-opus-4-8"]],
+      idleTimeout: 1,
+    };
+
+    expect(() => validateKiroSettings(invalid, "/home/me/.pi/kiro.json")).toThrow(
+      [
+        "Invalid Kiro settings in /home/me/.pi/kiro.json:",
+        "  - idleTimeoutMs must be a positive integer",
+        "  - maxRetries must be a non-negative integer",
+        "  - historyMaxTokens must be a positive integer",
+        "  - historySummaries must be true or false",
+        '  - thinkingHistoryFallback must be "text" or "drop"',
+        "  - regionMap must map region names to non-empty region names",
+        "  - modelFallbacks must be a list of chains, each listing at least two model IDs",
+        '  - unknown setting "idleTimeout"',
+      ].join("\n"),
+    );
+  });
+
+  it("rejects non-object settings", () => {
+    expect(() => validateKiroSettings([], "kiro.json")).toThrow(KiroSettingsError);
+  });
+});
+
+describe("loadKiroSettings", () => {
+  let project: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(join(tmpdir(), "kiro-settings-"));
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+    rmSync(globalSettingsPath(), { force: true });
+  });
+
+  it("returns no settings when neither file exists", () => {
+    expect(loadKiroSettings(project)).toEqual({});
+  });
+
+  it("lets project settings override global ones and merges region maps", () => {
+    writeJson(join(homedir(), ".pi", "kiro.json"), {
+      idleTimeoutMs: 600_000,
+      maxRetries: 5,
+      regionMap: { "ap-southeast-2": "us-east-1", "eu-west-1": "eu-central-1" },
+    });
+    writeJson(join(project, ".pi", "kiro.json"), { maxRetries: 1, regionMap: { "eu-west-1": "us-east-1" } });
+
+    expect(loadKiroSettings(project)).toEqual({
+      idleTimeoutMs: 600_000,
+      maxRetries: 1,
+      regionMap: { "ap-southeast-2": "us-east-1", "eu-west-1": "us-east-1" },
+    });
+  });
+
+  it("names the file that is not valid JSON", () => {
+    const file = join(project, ".pi", "kiro.json");
+    writeJson(file, "{ maxRetries: 1 }");
+
+    expect(() => loadKiroSettings(project)).toThrow(`Invalid Kiro settings in ${file}:\n  - not valid JSON`);
+  });
+});
+
+describe("applyKiroSettings", () => {
+  const snapshot = () => ({
+    retry: { ...retryConfig },
+    capacity: { ...capacityRetryConfig },
+    breaker: { ...capacityBreakerConfig },
+    history: { ...historyConfig },
+    historyImages: { ...historyImageConfig },
+    images: { ...imageConfig },
+    toolResult: { ...toolResultConfig },
+    thinkingHistory: { ...thinkingHistoryConfig },
+    modelCache: { ...modelCacheConfig },
+    region: { ...regionConfig },
+    fallback: { ...fallbackConfig },
+    preflight: { ...preflightConfig },
+    summary: { ...summaryConfig },
+  });
+  let original: ReturnType<typeof snapshot>;
+
+  beforeEach(() => {
+    original = snapshot();
+  });
+
+  afterEach(() => {
+    delete retryConfig.firstTokenTimeoutMs;
+    Object.assign(retryConfig, original.retry);
+    Object.assign(capacityRetryConfig, original.capacity);
+    Object.assign(capacityBreakerConfig, original.breaker);
+    delete historyConfig.maxTokens;
+    Object.assign(historyConfig, original.history);
+    delete historyImageConfig.maxBytes;
+    Object.assign(historyImageConfig, original.historyImages);
+    delete imageConfig.captionModel;
+    Object.assign(imageConfig, original.images);
+    Object.assign(toolResultConfig, original.toolResult);
+    Object.assign(thinkingHistoryConfig, original.thinkingHistory);
+    Object.assign(modelCacheConfig, original.modelCache);
+    Object.assign(preflightConfig, original.preflight);
+    Object.assign(summaryConfig, original.summary);
+    Object.assign(regionConfig, original.region);
+    Object.assign(fallbackConfig, original.fallback);
+  });
+
+  it("applies settings onto the provider config", () => {
+    applyKiroSettings({
+      firstTokenTimeoutMs: 180_000,
+      idleTimeoutMs: 600_000,
+      maxRetries: 5,
+      capacityMaxRetries: 1,
+      capacityBaseDelayMs: 2_000,
+      capacityBreakerThreshold: 6,
+      capacityBreakerCooldownMs: 30_000,
+      historyMaxTokens: 500_000,
+      historyMaxImages: 3,
+      historyMaxImageBytes: 5_000_000,
+      imageMaxDimension: 2_000,
+      imageMaxBytes: 3_000_000,
+      imageCaptionModel: "claude-haiku-4-5 ",
+      toolResultLimit: 500_000,
+      thinkingHistoryFallback: "drop",
+      modelCacheMaxAgeMs: 60_000,
+      maxRequestBytes: 4_000_000,
+      historySummaries: true,
+      historySummaryModel: " claude-sonnet-4-5 ",
+      regionMap: { "eu-west-1": "us-east-1" },
+      modelFallbacks: [[" claude-opus-4-8", "claude-sonnet-5 "]],
+    });
+
+    expect(retryConfig).toEqual({ firstTokenTimeoutMs: 180_000, idleTimeoutMs: 600_000, maxRetries: 5 });
+    expect(capacityRetryConfig).toEqual({ maxRetries: 1, baseDelayMs: 2_000 });
+    expect(capacityBreakerConfig).toEqual({ failureThreshold: 6, cooldownMs: 30_000 });
+    expect(historyConfig.maxTokens).toBe(500_000);
+    expect(historyImageConfig).toEqual({ maxImages: 3, maxBytes: 5_000_000 });
+    expect(imageConfig).toEqual({ maxDimension: 2_000, maxBytes: 3_000_000, captionModel: "claude-haiku-4-5" });
+    expect(toolResultConfig.limit).toBe(500_000);
+    expect(thinkingHistoryConfig.fallback).toBe("drop");
+    expect(modelCacheConfig.maxAgeMs).toBe(60_000);
+    expect(preflightConfig.maxBytes).toBe(4_000_000);
+    expect(summaryConfig).toEqual({ enabled: true, modelId: "claude-sonnet-4-5" });
+    expect(resolveApiRegion("eu-west-1")).toBe("us-east-1");
+    expect(resolveApiRegion("eu-west-2")).toBe("eu-central-1");
+    expect(fallbackConfig.chains).toEqual([["claude-opus-4-8", "claude-sonnet-5"]]);
+  });
+
+  it("leaves unspecified values at their defaults", () => {
+    applyKiroSettings({ maxRetries: 0 });
+
+    expect(retryConfig).toEqual({ ...original.retry, maxRetries: 0 });
+    expect(capacityRetryConfig).toEqual(original.capacity);
+  });
+});
@@ -0,0 +1,401 @@
+import {
+  type Api,
+  type AssistantMessageEvent,
+  type Context,
+  isContextOverflow,
+  type Model,
+} from "@earendil-works/pi-ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetCapacityCircuits } from "../src/capacity.js";
+import { getCachedModels, updateKiroModelsCache } from "../src/models.js";
+import { capacityBreakerConfig, capacityRetryConfig } from "../src/retry.js";
+import { type KiroAssistantMessage, resetProfileArnCache, streamKiro } from "../src/stream.js";
+import { resetSummaryCache } from "../src/summary.js";
+import { type KiroRequestMetrics, registerKiroMetricsSink } from "../src/telemetry.js";
+import { fetchKiroUsage } from "../src/usage.js";
+import { errors, frames, KiroSimulator, SIMULATOR_PROFILE_ARN, streamTurn } from "./helpers/kiro-simulator.js";
+
+const model: Model<Api> = {
+  id: "claude-sonnet-4-5",
+  name: "Sonnet",
+  api: "kiro-api",
+  provider: "kiro",
+  baseUrl: "https://runtime.us-east-1.kiro.dev/",
+  reasoning: false,
+  input: ["text", "image"],
+  cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  contextWindow: 200000,
+  maxTokens: 65536,
+};
+
+const context: Context = {
+  systemPrompt: "You are helpful",
+  messages: [{ role: "user", content: "Hello", timestamp: Date.now() }],
+  tools: [],
+};
+
+async function collect(stream: ReturnType<typeof streamKiro>): Promise<AssistantMessageEvent[]> {
+  const events: AssistantMessageEvent[] = [];
+  for await (const e of stream) {
+    events.push(e);
+    if (e.type === "done" || e.type === "error") return events;
+  }
+  return events;
+}
+
+function errorMessage(events: AssistantMessageEvent[]): KiroAssistantMessage | undefined {
+  const error = events.find((e) => e.type === "error");
+  return error?.type === "error" ? error.error : undefined;
+}
+
+function doneMessage(events: AssistantMessageEvent[]) {
+  const done = events.find((e) => e.type === "done");
+  return done?.type === "done" ? done.message : undefined;
+}
+
+/** Six long question-and-answer turns and a short latest question, too much for a 5,000-token window. */
+function longConversation(): Context["messages"] {
+  const turns: Context["messages"] = [];
+  for (let i = 0; i < 6; i++) {
+    turns.push({ role: "user", content: `question ${i} ${"x".repeat(4_000)}`, timestamp: i });
+    turns.push({
+      role: "assistant",
+      content: [{ type: "text", text: `answer ${i} ${"y".repeat(4_000)}` }],
+      api: "kiro-api",
+      provider: "kiro",
+      model: model.id,
+      usage: {
+        input: 0,
+        output: 0,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: 0,
+        cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+      },
+      stopReason: "stop",
+      timestamp: i,
+    });
+  }
+  turns.push({ role: "user", content: "latest", timestamp: 99 });
+  return turns;
+}
+
+describe("Kiro runtime simulator", () => {
+  let simulator: KiroSimulator;
+
+  beforeEach(() => {
+    resetProfileArnCache();
+    resetCapacityCircuits();
+    simulator = new KiroSimulator();
+    vi.stubGlobal("fetch", simulator.fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("streams text and tool calls end to end, resolving the profile through management", async () => {
+    simulator.enqueue({
+      ...streamTurn(frames.text("Reading the file."), frames.toolUse("read", { path: "a.ts" }, "tool-1")),
+      chunkSize: 7,
+    });
+
+    const message = doneMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+
+    expect(message?.stopReason).toBe("toolUse");
+    expect(message?.content).toEqual([
+      { type: "text", text: "Reading the file." },
+      { type: "toolCall", id: "tool-1", name: "read", arguments: { path: "a.ts" } },
+    ]);
+    expect(simulator.requestsFor("ListAvailableProfiles")).toHaveLength(1);
+    const [runtime] = simulator.requestsFor("generateAssistantResponse");
+    expect(runtime.headers.authorization).toBe("Bearer sim-token");
+    expect(runtime.body?.profileArn).toBe(SIMULATOR_PROFILE_ARN);
+  });
+
+  it("retries injected capacity errors before succeeding", async () => {
+    const origConfig = { ...capacityRetryConfig };
+    capacityRetryConfig.baseDelayMs = 10;
+    simulator.enqueue(errors.capacity(), errors.capacity(), streamTurn(frames.text("recovered")));
+
+    try {
+      const message = doneMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(message?.content).toEqual([{ type: "text", text: "recovered" }]);
+      expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(3);
+    } finally {
+      Object.assign(capacityRetryConfig, origConfig);
+    }
+  });
+
+  it("surfaces injected 413s as context overflow errors", async () => {
+    simulator.enqueue(errors.tooLarge());
+
+    const events = await collect(streamKiro(model, context, { apiKey: "sim-token" }));
+
+    const error = events.find((e) => e.type === "error");
+    expect(error?.type === "error" && error.error.errorMessage).toContain("context_length_exceeded");
+  });
+
+  it("retries a mid-stream error event with a fresh request", async () => {
+    simulator.enqueue(streamTurn(frames.text("partial"), frames.error("InternalServerException", "boom")));
+
+    const message = doneMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+
+    expect(message?.content.some((b) => b.type === "text" && b.text.includes("ok"))).toBe(true);
+    expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(2);
+  });
+
+  it("classifies context overflow without breaking pi-ai overflow detection", async () => {
+    simulator.enqueue(errors.contentLengthExceeded());
+
+    const message = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+
+    expect(message?.kiroError).toMatchObject({ code: "context-too-large", status: 400, requestId: "sim-request-2" });
+    expect(message && isContextOverflow(message)).toBe(true);
+  });
+
+  it("fails an oversized request before sending it", async () => {
+    const small = { ...model, contextWindow: 1_000 };
+    const big: Context = { ...context, messages: [{ role: "user", content: "x".repeat(20_000), timestamp: 1 }] };
+
+    const message = errorMessage(await collect(streamKiro(small, big, { apiKey: "sim-token" })));
+
+    expect(message?.kiroError?.code).toBe("context-too-large");
+    expect(message && isContextOverflow(message)).toBe(true);
+    expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(0);
+  });
+
+  it("drops the oldest history to fit the model before sending", async () => {
+    const small = { ...model, contextWindow: 5_000 };
+    const turns = longConversation();
+
+    const message = doneMessage(
+      await collect(streamKiro(small, { ...context, messages: turns }, { apiKey: "sim-token" })),
+    );
+
+    expect(message).toBeDefined();
+    const [request] = simulator.requestsFor("generateAssistantResponse");
+    const sent = JSON.stringify(request.body);
+    expect(sent.length).toBeLessThan(5_000 * 4.25);
+    // The first question holds the task, so it stays and the middle is elided
+    expect(sent).toContain("question 0");
+    expect(sent).toContain("[5 earlier turns omitted]");
+    expect(sent).not.toContain("question 1");
+    expect(sent).toContain("answer 5");
+  });
+
+  it("summarizes the dropped history with the summary model when enabled", async () => {
+    const small = { ...model, contextWindow: 5_000 };
+    const turns = longConversation();
+
+    process.env.KIRO_SUMMARIZE_HISTORY = "1";
+    simulator.enqueue(streamTurn(frames.text("They asked five questions about x.")));
+    const reported: KiroRequestMetrics[] = [];
+    const unregister = registerKiroMetricsSink((metrics) => reported.push(metrics));
+
+    try {
+      await collect(streamKiro(small, { ...context, messages: turns }, { apiKey: "sim-token" }));
+    } finally {
+      unregister();
+      delete process.env.KIRO_SUMMARIZE_HISTORY;
+      resetSummaryCache();
+    }
+
+    const [summaryRequest, request] = simulator.requestsFor("generateAssistantResponse");
+    expect(JSON.stringify(summaryRequest.body)).toContain("claude-haiku-4.5");
+    expect(JSON.stringify(request.body)).toContain("[Summary of 5 earlier turns]\\nThey asked five questions about x.");
+    expect(reported.map((metrics) => metrics.kind)).toEqual(["side", "turn"]);
+  });
+
+  it("sends the plain marker when the summary would not fit the context window", async () => {
+    const small = { ...model, contextWindow: 5_000 };
+
+    process.env.KIRO_SUMMARIZE_HISTORY = "1";
+    simulator.enqueue(streamTurn(frames.text(`A long summary ${"z".repeat(40_000)}`)));
+
+    let message: KiroAssistantMessage | undefined;
+    try {
+      message = doneMessage(
+        await collect(streamKiro(small, { ...context, messages: longConversation() }, { apiKey: "sim-token" })),
+      );
+    } finally {
+      delete process.env.KIRO_SUMMARIZE_HISTORY;
+      resetSummaryCache();
+    }
+
+    expect(message).toBeDefined();
+    const [, request] = simulator.requestsFor("generateAssistantResponse");
+    const sent = JSON.stringify(request.body);
+    expect(sent.length).toBeLessThan(5_000 * 4.25);
+    expect(sent).toContain("[5 earlier turns omitted]");
+    expect(sent).not.toContain("A long summary");
+  });
+
+  it("keeps images away from text-only models and warns about them", async () => {
+    const textOnly = { ...model, id: "deepseek-3-2", input: ["text"] as ("text" | "image")[] };
+    const png = Buffer.from("89504e470d0a1a0a0000000d4948445200000002000000020806000000", "hex");
+    const withImage: Context = {
+      ...context,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image", data: png.toString("base64"), mimeType: "image/png" },
+          ],
+          timestamp: 1,
+        },
+      ],
+    };
+
+    const message = doneMessage(await collect(streamKiro(textOnly, withImage, { apiKey: "sim-token" })));
+
+    const [request] = simulator.requestsFor("generateAssistantResponse");
+    const current = (request.body as { conversationState: { currentMessage: { userInputMessage: object } } })
+      .conversationState.currentMessage.userInputMessage;
+    expect(current).not.toHaveProperty("images");
+    expect(JSON.stringify(current)).toContain("[image not shown: a 2x2 PNG; deepseek-3-2 reads text only]");
+    expect((message as KiroAssistantMessage).kiroWarnings).toEqual([
+      expect.objectContaining({ code: "image-unsupported", message: expect.stringContaining("deepseek-3-2") }),
+    ]);
+  });
+
+  it("classifies quota exhaustion as non-retryable", async () => {
+    simulator.enqueue(errors.quota());
+
+    const message = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+
+    expect(message?.kiroError).toMatchObject({ code: "quota-exhausted", status: 402, retries: [] });
+    expect(message?.kiroError?.remediation).toContain("quota");
+    expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(1);
+  });
+
+  it("records the retry history on exhausted capacity errors", async () => {
+    const origConfig = { ...capacityRetryConfig };
+    Object.assign(capacityRetryConfig, { maxRetries: 2, baseDelayMs: 1 });
+    simulator.enqueue(errors.capacity(), errors.capacity(), errors.capacity());
+
+    try {
+      const message = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(message?.kiroError).toMatchObject({ code: "capacity", status: 429, retries: ["capacity", "capacity"] });
+    } finally {
+      Object.assign(capacityRetryConfig, origConfig);
+    }
+  });
+
+  it("falls back along the configured chain when capacity stays exhausted", async () => {
+    const origConfig = { ...capacityRetryConfig };
+    Object.assign(capacityRetryConfig, { maxRetries: 1, baseDelayMs: 1 });
+    vi.stubEnv("KIRO_MODEL_FALLBACKS", "claude-sonnet-4-5,claude-haiku-4-5");
+    simulator.enqueue(errors.capacity(), errors.capacity(), streamTurn(frames.text("from haiku")));
+
+    try {
+      const events = await collect(streamKiro(model, context, { apiKey: "sim-token" }));
+      const message = doneMessage(events) as KiroAssistantMessage | undefined;
+      expect(events.filter((e) => e.type === "error")).toEqual([]);
+      expect(message?.content).toEqual([{ type: "text", text: "from haiku" }]);
+      expect(message?.model).toBe("claude-haiku-4-5");
+      expect(message?.requestedModel).toBe("claude-sonnet-4-5");
+      const modelIds = simulator
+        .requestsFor("generateAssistantResponse")
+        .map((r) => JSON.stringify(r.body).match(/"modelId":"([^"]+)"/)?.[1]);
+      expect(modelIds).toEqual(["claude-sonnet-4.5", "claude-sonnet-4.5", "claude-haiku-4.5"]);
+    } finally {
+      Object.assign(capacityRetryConfig, origConfig);
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("fails fast while the capacity circuit is open, then probes once", async () => {
+    const origConfig = { ...capacityRetryConfig };
+    const origBreaker = { ...capacityBreakerConfig };
+    Object.assign(capacityRetryConfig, { maxRetries: 1, baseDelayMs: 1 });
+    Object.assign(capacityBreakerConfig, { failureThreshold: 2, cooldownMs: 50 });
+    simulator.enqueue(errors.capacity(), errors.capacity(), errors.capacity(), streamTurn(frames.text("back")));
+
+    try {
+      const exhausted = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(exhausted?.kiroError?.code).toBe("capacity");
+      expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(2);
+
+      const fastFail = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(fastFail?.kiroError).toMatchObject({ code: "capacity", retries: [] });
+      expect(fastFail?.errorMessage).toContain("circuit open");
+      expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const failedProbe = errorMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(failedProbe?.kiroError?.retries).toEqual([]);
+      expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(3);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const message = doneMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(message?.content).toEqual([{ type: "text", text: "back" }]);
+    } finally {
+      Object.assign(capacityRetryConfig, origConfig);
+      Object.assign(capacityBreakerConfig, origBreaker);
+    }
+  });
+
+  it("reports tool calls dropped for malformed input as warnings", async () => {
+    simulator.enqueue(
+      streamTurn(
+        frames.text("Writing."),
+        { kind: "event", payload: { name: "write", toolUseId: "tool-1", input: '{"path":' } },
+        { kind: "event", payload: { stop: true } },
+      ),
+    );
+
+    const events = await collect(streamKiro(model, context, { apiKey: "sim-token" }));
+    const message = doneMessage(events) as KiroAssistantMessage | undefined;
+
+    // The dropped call's index is ended, then its block removed
+    expect(message?.content).toEqual([{ type: "text", text: "Writing." }]);
+    expect(events.map((e) => `${e.type}${"contentIndex" in e ? `:${e.contentIndex}` : ""}`)).toEqual([
+      "start",
+      "text_start:0",
+      "text_delta:0",
+      "toolcall_start:1",
+      "toolcall_delta:1",
+      "toolcall_end:1",
+      "text_end:0",
+      "done",
+    ]);
+    expect(message?.kiroError).toBeUndefined();
+    expect(message?.kiroWarnings?.map((w) => w.code)).toEqual(["malformed-tool-input"]);
+  });
+
+  it("serves usage limits, retrying with a discovered profile after a 403", async () => {
+    simulator.failManagement("GetUsageLimits", errors.forbidden());
+
+    const usage = await fetchKiroUsage({ access: "sim-token", refresh: "r", expires: Date.now() + 60_000 });
+
+    expect(usage.subscriptionTitle).toBe("KIRO SIMULATOR");
+    const usageRequests = simulator.requestsFor("GetUsageLimits");
+    expect(usageRequests).toHaveLength(2);
+    expect(new URL(usageRequests[1].url).searchParams.get("profileArn")).toBe(SIMULATOR_PROFILE_ARN);
+  });
+
+  it("refreshes the model cache from the simulated catalog", async () => {
+    await updateKiroModelsCache("sim-token", "sim-region-1");
+
+    expect(getCachedModels("sim-region-1").map((m) => m.id)).toEqual(["claude-sonnet-4-5", "claude-haiku-4-5"]);
+    expect(simulator.requestsFor("ListAvailableModels")).toHaveLength(1);
+  });
+
+  it("serves the same framing over HTTP when the provider is pointed at it", async () => {
+    vi.unstubAllGlobals();
+    const server = await simulator.listen();
+    vi.stubEnv("KIRO_ENDPOINT_OVERRIDE", server.url);
+    simulator.enqueue({ ...streamTurn(frames.text("over "), frames.text("the wire")), chunkSize: 3 });
+
+    try {
+      const message = doneMessage(await collect(streamKiro(model, context, { apiKey: "sim-token" })));
+      expect(message?.content).toEqual([{ type: "text", text: "over the wire" }]);
+      expect(simulator.requestsFor("generateAssistantResponse")[0].url).toBe(`${server.url}generateAssistantResponse`);
+    } finally {
+      vi.unstubAllEnvs();
+      await server.close();
+    }
+  });
+});
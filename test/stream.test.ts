@@ -1,3 +1,6 @@
+import { mkdtempSync, readdirSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type {
   Api,
   AssistantMessage,
@@ -6,14 +9,29 @@ import type {
   ImageContent,
   Model,
   TextContent,
+  Tool,
   ToolResultMessage,
 } from "@earendil-works/pi-ai";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { findJsonEnd } from "../src/bracket-tool-parser.js";
+import { resetCapacityCircuits } from "../src/capacity.js";
+import { resetKiroReplay } from "../src/recording.js";
 import { capacityRetryConfig, retryConfig } from "../src/retry.js";
-import { resetProfileArnCache, streamKiro } from "../src/stream.js";
-import type { KiroHistoryEntry } from "../src/transform.js";
+import { type KiroAssistantMessage, resetProfileArnCache, streamKiro } from "../src/stream.js";
+import { type KiroRequestMetrics, registerKiroMetricsSink } from "../src/telemetry.js";
+import { type KiroHistoryEntry, type KiroUserInputMessage, resetReasoningReplay } from "../src/transform.js";
+import { RESUME_NOTICE } from "../src/truncation.js";
 import { concatMessages, encodeEventMessage } from "./helpers/event-stream.js";
+import { errors, frames, httpError, KiroSimulator, streamTurn } from "./helpers/kiro-simulator.js";
+
+type KiroRequestBody = {
+  conversationState: {
+    currentMessage: { userInputMessage: KiroUserInputMessage };
+    history: KiroHistoryEntry[];
+  };
+};
+
+const REPLAY_FIXTURES = join(import.meta.dirname, "fixtures", "replay");
 
 const ts = Date.now();
 const zeroUsage = {
@@ -56,6 +74,12 @@ function makeContext(userMsg = "Hello"): Context {
   };
 }
 
+const bashTool = {
+  name: "bash",
+  description: "Run a command",
+  parameters: { type: "object", properties: { cmd: { type: "string" } }, required: ["cmd"] },
+} as unknown as Tool;
+
 function effortSchema(field: "reasoning" | "output_config", values: string[]): Record<string, unknown> {
   return {
     type: "object",
@@ -134,6 +158,7 @@ describe("Feature 9: Streaming Integration", () => {
   beforeEach(() => {
     // Mark profileArn as already resolved so tests don't see an extra fetch
     resetProfileArnCache(true);
+    resetCapacityCircuits();
   });
 
   it("emits error when no credentials provided", async () => {
@@ -235,6 +260,38 @@ describe("Feature 9: Streaming Integration", () => {
     }
   });
 
+  it("keeps redacted thinking as an opaque block", async () => {
+    vi.stubGlobal(
+      "fetch",
+      mockFetchOk('{"redactedContent":"ZW5jcnlwdGVk"}{"content":"No"}{"contextUsagePercentage":10}'),
+    );
+
+    try {
+      const events = await collect(
+        streamKiro(
+          makeModel({
+            id: "claude-sonnet-5",
+            kiroModelId: "claude-sonnet-5",
+            additionalModelRequestFieldsSchema: effortSchema("output_config", ["low", "medium", "high", "max"]),
+          }),
+          makeContext(),
+          { apiKey: "test-token", reasoning: "high" },
+        ),
+      );
+
+      const done = events.find((event) => event.type === "done");
+      expect(done?.type === "done" && done.message.content[0]).toEqual({
+        type: "thinking",
+        thinking: "",
+        thinkingSignature: "ZW5jcnlwdGVk",
+        redacted: true,
+      });
+      expect(events.map((event) => event.type)).toContain("thinking_end");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   it("keeps visible-thinking markers when Claude uses structured adaptive effort", async () => {
     const mockFetch = mockFetchOk(
       '{"content":"<thinking>Checked divisibility</thinking>\\n\\nNo"}{"contextUsagePercentage":10}',
@@ -714,6 +771,119 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 
+  it("keeps followupPrompt suggestions on the assistant message", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(frames.text("Done."), frames.followupPrompt("Add tests"), frames.followupPrompt("Add tests")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    const done = events.find((e) => e.type === "done");
+    const message = done?.type === "done" ? (done.message as KiroAssistantMessage) : undefined;
+    expect(message?.content).toEqual([{ type: "text", text: "Done." }]);
+    expect(message?.followupPrompts).toEqual([
+      { content: "Add tests", userIntent: "SUGGEST_ALTERNATE_IMPLEMENTATION" },
+    ]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("streams partially parsed tool arguments before the tool call completes", async () => {
+    const simulator = new KiroSimulator().enqueue({
+      kind: "stream",
+      frames: [
+        { kind: "event", payload: { name: "write", toolUseId: "tc1", input: '{"path":"a.ts","content":"line 1' } },
+        { kind: "event", payload: { input: "\\nline 2" } },
+      ],
+      stall: true,
+    });
+    vi.stubGlobal("fetch", simulator.fetch);
+    const ac = new AbortController();
+
+    const stream = streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok", signal: ac.signal });
+    const seen: AssistantMessageEvent[] = [];
+    for await (const e of stream) {
+      seen.push(e);
+      if (seen.filter((s) => s.type === "toolcall_delta").length === 2) break;
+    }
+
+    expect(seen.map((e) => e.type)).toEqual(["start", "toolcall_start", "toolcall_delta", "toolcall_delta"]);
+    const last = seen[3];
+    expect(last.type === "toolcall_delta" && last.delta).toBe("\\nline 2");
+    expect(last.type === "toolcall_delta" && last.partial.content[0]).toEqual({
+      type: "toolCall",
+      id: "tc1",
+      name: "write",
+      arguments: { path: "a.ts", content: "line 1\nline 2" },
+    });
+
+    ac.abort();
+    vi.unstubAllGlobals();
+  });
+
+  it("ends an open tool call before thinking or text opens another block", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(
+        { kind: "event", payload: { name: "write", toolUseId: "tc1", input: '{"path":"a.ts"' } },
+        frames.thinking("Hmm."),
+        frames.text("Retrying."),
+      ),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const events = await collect(streamKiro(makeModel(), makeContext(), { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && done.message.content).toEqual([
+        { type: "thinking", thinking: "Hmm." },
+        { type: "text", text: "Retrying." },
+      ]);
+      expect(events.map((e) => e.type)).toEqual([
+        "start",
+        "toolcall_start",
+        "toolcall_delta",
+        "toolcall_end",
+        "thinking_start",
+        "thinking_delta",
+        "thinking_end",
+        "text_start",
+        "text_delta",
+        "text_end",
+        "done",
+      ]);
+      expect(events.find((e) => e.type === "thinking_start")).toMatchObject({ contentIndex: 0 });
+    } finally {
+      warn.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("drops a tool call cut off mid-input before retrying", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(
+        { kind: "event", payload: { name: "write", toolUseId: "tc1", input: '{"path":"a.ts","con' } },
+        frames.error("InternalServerException"),
+      ),
+      streamTurn(frames.toolUse("write", { path: "a.ts", content: "done" }, "tc2")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    const done = events.find((e) => e.type === "done");
+    expect(done?.type === "done" && done.message.content).toEqual([
+      { type: "toolCall", id: "tc2", name: "write", arguments: { path: "a.ts", content: "done" } },
+    ]);
+    const tcEnds = events.filter((e) => e.type === "toolcall_end");
+    expect(tcEnds.map((e) => e.type === "toolcall_end" && e.toolCall.id)).toEqual(["tc1", "tc2"]);
+    expect(events.filter((e) => e.type === "start")).toHaveLength(1);
+
+    vi.unstubAllGlobals();
+  });
+
   // =========================================================================
   // Multiple tool calls (pi-mono: stream.test.ts multiTurn)
   // =========================================================================
@@ -740,6 +910,97 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 
+  // =========================================================================
+  // Block ordering
+  // =========================================================================
+
+  const tool = (id: string, cmd: string) =>
+    `{"name":"bash","toolUseId":"${id}","input":"{\\"cmd\\":\\"${cmd}\\"}","stop":true}`;
+  const blockSummary = (content: AssistantMessage["content"]) =>
+    content.map((b) => (b.type === "text" ? `text:${b.text}` : b.type === "toolCall" ? `tool:${b.id}` : b.type));
+
+  it.each([
+    ["plain", false],
+    ["reasoning", true],
+  ])("keeps text -> tool -> text -> tool in order (%s)", async (_mode, reasoning) => {
+    const mockFetch = mockFetchOk(
+      `{"content":"Listing."}${tool("tc1", "ls")}{"content":"Now reading."}${tool("tc2", "cat a")}{"contextUsagePercentage":10}`,
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    try {
+      const events = await collect(streamKiro(makeModel({ reasoning }), makeContext(), { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && blockSummary(done.message.content)).toEqual([
+        "text:Listing.",
+        "tool:tc1",
+        "text:Now reading.",
+        "tool:tc2",
+      ]);
+      const textEnds = events.filter((e) => e.type === "text_end");
+      expect(textEnds.map((e) => (e as { contentIndex: number }).contentIndex)).toEqual([0, 2]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("starts a new native thinking block when thinking resumes after a tool call", async () => {
+    const mockFetch = mockFetchOk(
+      `{"text":"List first."}{"signature":"s1"}${tool("tc1", "ls")}{"text":"Then read."}{"signature":"s2"}{"content":"Done."}{"contextUsagePercentage":10}`,
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    try {
+      const events = await collect(
+        streamKiro(
+          makeModel({
+            id: "claude-sonnet-5",
+            kiroModelId: "claude-sonnet-5",
+            additionalModelRequestFieldsSchema: effortSchema("output_config", ["low", "medium", "high", "max"]),
+          }),
+          makeContext(),
+          { apiKey: "tok", reasoning: "high" },
+        ),
+      );
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && done.message.content).toEqual([
+        { type: "thinking", thinking: "List first.", thinkingSignature: "s1" },
+        expect.objectContaining({ type: "toolCall", id: "tc1" }),
+        { type: "thinking", thinking: "Then read.", thinkingSignature: "s2" },
+        { type: "text", text: "Done." },
+      ]);
+      expect(events.filter((e) => e.type === "thinking_end")).toHaveLength(2);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("extracts bracket tool calls after thinking and strips the echo before it", async () => {
+    const mockFetch = mockFetchOk(
+      '{"content":"<thinking>a</thinking>\\n\\n."}{"content":"<thinking>b</thinking>\\n\\n[Called bash with args: {\\"cmd\\":\\"ls\\"}]"}{"contextUsagePercentage":10}',
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    try {
+      const context = { ...makeContext(), tools: [bashTool] };
+      const events = await collect(streamKiro(makeModel({ reasoning: true }), context, { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && done.reason).toBe("toolUse");
+      const message = done?.type === "done" ? done.message : undefined;
+      expect(message?.content.map((b) => b.type)).toEqual(["thinking", "text", "thinking", "toolCall"]);
+      expect(message?.content.filter((b) => b.type === "text").map((b) => b.type === "text" && b.text)).toEqual([""]);
+      expect(message?.content.find((b) => b.type === "toolCall")).toMatchObject({
+        name: "bash",
+        arguments: { cmd: "ls" },
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   // =========================================================================
   // totalTokens consistency (pi-mono: total-tokens.test.ts)
   // =========================================================================
@@ -1246,6 +1507,102 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 
+  describe("when Kiro rejects reasoning content", () => {
+    const thought: AssistantMessage = {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "List first.", thinkingSignature: "sig" },
+        { type: "text", text: "Listed." },
+      ],
+      api: "kiro-api",
+      provider: "kiro",
+      model: "claude-sonnet-4-5",
+      usage: zeroUsage,
+      stopReason: "stop",
+      timestamp: ts,
+    };
+    const context: Context = {
+      messages: [
+        { role: "user", content: "list", timestamp: ts },
+        thought,
+        { role: "user", content: "again", timestamp: ts },
+      ],
+    };
+    const improperlyFormed = () => httpError(400, '{"message":"Improperly formed request."}', "Bad Request");
+    const sentReasoning = (simulator: KiroSimulator) =>
+      simulator
+        .requestsFor("generateAssistantResponse")
+        .map(
+          (r) => (r.body as KiroRequestBody).conversationState.history[1].assistantResponseMessage?.reasoningContent,
+        );
+
+    afterEach(() => {
+      resetReasoningReplay();
+      vi.unstubAllGlobals();
+    });
+
+    it("resends the turn without it, and leaves it out for the rest of the session", async () => {
+      const simulator = new KiroSimulator().enqueue(
+        improperlyFormed(),
+        streamTurn(frames.text("Hi")),
+        streamTurn(frames.text("Hi")),
+        streamTurn(frames.text("Hi")),
+      );
+      vi.stubGlobal("fetch", simulator.fetch);
+
+      const events = await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s1" }));
+      await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s1" }));
+      await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s2" }));
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && (done.message as KiroAssistantMessage).kiroMetrics?.retries).toMatchObject({
+        reasoningRejected: 1,
+      });
+      const [rejected, resent, sameSession, otherSession] = sentReasoning(simulator);
+      expect(rejected).toBeDefined();
+      expect(resent).toBeUndefined();
+      expect(sameSession).toBeUndefined();
+      expect(otherSession).toBeDefined();
+      const history = (simulator.requestsFor("generateAssistantResponse")[1].body as KiroRequestBody).conversationState
+        .history;
+      expect(history[1].assistantResponseMessage).toEqual({ content: "<thinking>List first.</thinking>\n\nListed." });
+    });
+
+    it("keeps sending it when the request fails without it too", async () => {
+      const simulator = new KiroSimulator().enqueue(
+        improperlyFormed(),
+        improperlyFormed(),
+        streamTurn(frames.text("Hi")),
+      );
+      vi.stubGlobal("fetch", simulator.fetch);
+
+      const events = await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s1" }));
+      await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s1" }));
+
+      expect(events.find((e) => e.type === "error")).toBeDefined();
+      const [rejected, resent, next] = sentReasoning(simulator);
+      expect(rejected).toBeDefined();
+      expect(resent).toBeUndefined();
+      expect(next).toBeDefined();
+    });
+
+    it("counts the resend against the retry limit", async () => {
+      const original = retryConfig.maxRetries;
+      retryConfig.maxRetries = 0;
+      const simulator = new KiroSimulator().enqueue(improperlyFormed(), streamTurn(frames.text("Hi")));
+      vi.stubGlobal("fetch", simulator.fetch);
+
+      try {
+        const events = await collect(streamKiro(makeModel(), context, { apiKey: "tok", sessionId: "s1" }));
+
+        expect(events.find((e) => e.type === "error")).toBeDefined();
+        expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(1);
+      } finally {
+        retryConfig.maxRetries = original;
+      }
+    });
+  });
+
   it("retries INSUFFICIENT_MODEL_CAPACITY with backoff then throws after max retries", async () => {
     const origConfig = { ...capacityRetryConfig };
     capacityRetryConfig.baseDelayMs = 10;
@@ -1673,9 +2030,10 @@ describe("Feature 9: Streaming Integration", () => {
     expect(msg).toContain("tc1");
     expect(msg).toContain("not-valid-json");
 
-    // Tool call with unparseable JSON should be skipped entirely
-    const tcEnd = events.find((e) => e.type === "toolcall_end");
-    expect(tcEnd).toBeUndefined();
+    // Tool call with unparseable JSON is ended for listeners but left out of the message
+    const done = events.find((e) => e.type === "done");
+    expect(done?.type === "done" && done.message.content).toEqual([]);
+    expect(done?.type === "done" && done.message.stopReason).not.toBe("toolUse");
 
     warnSpy.mockRestore();
     vi.unstubAllGlobals();
@@ -1769,6 +2127,190 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 
+  it("resumes a response interrupted mid-stream instead of regenerating it", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(frames.text("Hello wor"), frames.error("InternalServerException", "stream reset")),
+      streamTurn(frames.text("ld!")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel(), makeContext("Greet me"), { apiKey: "tok" }));
+
+    const requests = simulator.requestsFor("generateAssistantResponse");
+    expect(requests).toHaveLength(2);
+    const resumed = (requests[1].body as KiroRequestBody).conversationState;
+    expect(resumed.currentMessage.userInputMessage.content).toBe(RESUME_NOTICE);
+    expect(resumed.history.slice(-2)).toEqual([
+      {
+        userInputMessage: expect.objectContaining({ content: expect.stringContaining("Greet me") }),
+      },
+      { assistantResponseMessage: { content: "Hello wor" } },
+    ]);
+
+    const done = events.find((e) => e.type === "done");
+    expect(done?.type === "done" && done.message.content).toEqual([{ type: "text", text: "Hello world!" }]);
+    expect(events.filter((e) => e.type === "start")).toHaveLength(1);
+    expect(events.filter((e) => e.type === "text_start")).toHaveLength(1);
+    const textEnd = events.find((e) => e.type === "text_end");
+    expect(textEnd?.type === "text_end" && textEnd.contentIndex).toBe(0);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("fails rather than regenerating a response interrupted after a completed tool call", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(
+        frames.text("Listing."),
+        frames.toolUse("bash", { cmd: "ls" }, "t1"),
+        frames.error("InternalServerException", "stream reset"),
+      ),
+      streamTurn(frames.text("Listing."), frames.toolUse("bash", { cmd: "ls" }, "t2")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(
+      streamKiro(makeModel({ reasoning: false }), { ...makeContext(), tools: [bashTool] }, { apiKey: "tok" }),
+    );
+
+    expect(simulator.requestsFor("generateAssistantResponse")).toHaveLength(1);
+    expect(events.filter((e) => e.type === "start")).toHaveLength(1);
+    const error = events.find((e) => e.type === "error");
+    expect(error?.type === "error" && error.error.stopReason).toBe("error");
+    expect(error?.type === "error" && (error.error as KiroAssistantMessage).kiroError?.code).toBe("stream-error");
+    expect(error?.type === "error" && error.error.errorMessage).toContain("stream reset");
+
+    vi.unstubAllGlobals();
+  });
+
+  it("ends an interrupted thinking segment so the continuation is text", async () => {
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(
+        frames.text("<thinking>plan</thinking>Hello there. "),
+        frames.text("<thinking>more"),
+        frames.error("InternalServerException", "stream reset"),
+      ),
+      streamTurn(frames.text("General Kenobi.")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel(), makeContext("Greet me"), { apiKey: "tok" }));
+
+    const resumed = (simulator.requestsFor("generateAssistantResponse")[1].body as KiroRequestBody).conversationState;
+    expect(resumed.history.at(-1)).toEqual({ assistantResponseMessage: { content: "Hello there. " } });
+    const done = events.find((e) => e.type === "done");
+    expect(done?.type === "done" && done.message.content).toEqual([
+      { type: "thinking", thinking: "plan" },
+      { type: "text", text: "Hello there. " },
+      { type: "thinking", thinking: "more" },
+      { type: "text", text: "General Kenobi." },
+    ]);
+    const blockEvents = events
+      .filter((e) => e.type.endsWith("_start") || e.type.endsWith("_end"))
+      .map((e) => `${e.type}:${"contentIndex" in e ? e.contentIndex : ""}`);
+    expect(blockEvents).toEqual([
+      "thinking_start:0",
+      "thinking_end:0",
+      "text_start:1",
+      "thinking_start:2",
+      "thinking_end:2",
+      "text_end:1",
+      "text_start:3",
+      "text_end:3",
+    ]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("moves interrupted tool results into history and keeps tools on the continuation", async () => {
+    const context: Context = {
+      systemPrompt: "You are helpful",
+      messages: [
+        { role: "user", content: "List files", timestamp: ts },
+        {
+          role: "assistant",
+          content: [{ type: "toolCall", id: "tc1", name: "bash", arguments: { cmd: "ls" } }],
+          api: "kiro-api",
+          provider: "kiro",
+          model: "claude-sonnet-4-5",
+          usage: zeroUsage,
+          stopReason: "toolUse",
+          timestamp: ts,
+        },
+        {
+          role: "toolResult",
+          toolCallId: "tc1",
+          toolName: "bash",
+          content: [{ type: "text", text: "a.ts" }],
+          isError: false,
+          timestamp: ts,
+        },
+      ],
+      tools: [{ name: "bash", description: "Run", parameters: { type: "object", properties: {} } }],
+    };
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(frames.text("There is one"), frames.error("InternalServerException")),
+      streamTurn(frames.text(" file.")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel({ reasoning: false }), context, { apiKey: "tok" }));
+
+    const resumed = (simulator.requestsFor("generateAssistantResponse")[1].body as KiroRequestBody).conversationState;
+    expect(resumed.currentMessage.userInputMessage.userInputMessageContext).toEqual({
+      tools: [expect.objectContaining({ toolSpecification: expect.objectContaining({ name: "bash" }) })],
+    });
+    const [interrupted, partial] = resumed.history.slice(-2);
+    expect(interrupted.userInputMessage?.userInputMessageContext).toEqual({
+      toolResults: [expect.objectContaining({ toolUseId: "tc1" })],
+    });
+    expect(partial).toEqual({ assistantResponseMessage: { content: "There is one" } });
+
+    const done = events.find((e) => e.type === "done");
+    expect(done?.type === "done" && done.message.content).toEqual([{ type: "text", text: "There is one file." }]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("attaches request metrics to the final message and reports them to registered sinks", async () => {
+    const origConfig = { ...capacityRetryConfig };
+    capacityRetryConfig.baseDelayMs = 10;
+    const simulator = new KiroSimulator().enqueue(errors.capacity(), streamTurn(frames.text("Hello there")));
+    vi.stubGlobal("fetch", simulator.fetch);
+    const reported: KiroRequestMetrics[] = [];
+    const unregister = registerKiroMetricsSink((m) => reported.push(m));
+
+    try {
+      const events = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      const metrics = done?.type === "done" ? (done.message as KiroAssistantMessage).kiroMetrics : undefined;
+      expect(metrics).toMatchObject({ model: "claude-sonnet-4-5", region: "us-east-1", attempts: 2, outcome: "stop" });
+      expect(metrics?.retries.capacity).toBe(1);
+      expect(metrics?.timeToHeadersMs).toBeGreaterThanOrEqual(0);
+      expect(metrics?.timeToFirstTokenMs).toBeGreaterThanOrEqual(metrics?.timeToHeadersMs ?? 0);
+      expect(metrics?.outputTokens).toBeGreaterThan(0);
+      expect(reported).toEqual([metrics]);
+    } finally {
+      unregister();
+      Object.assign(capacityRetryConfig, origConfig);
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("reports metrics for failed requests", async () => {
+    const simulator = new KiroSimulator().enqueue(errors.tooLarge());
+    vi.stubGlobal("fetch", simulator.fetch);
+
+    const events = await collect(streamKiro(makeModel(), makeContext(), { apiKey: "tok" }));
+
+    const error = events.find((e) => e.type === "error");
+    const metrics = error?.type === "error" ? (error.error as KiroAssistantMessage).kiroMetrics : undefined;
+    expect(metrics).toMatchObject({ attempts: 1, outcome: "error" });
+    expect(metrics?.timeToFirstTokenMs).toBeUndefined();
+
+    vi.unstubAllGlobals();
+  });
+
   it("does not produce unhandled rejection when reader.cancel() rejects", async () => {
     // Regression: reader.cancel() returns a Promise, but the old code wrapped
     // it in try/catch which only catches synchronous throws. If cancel()
@@ -2265,6 +2807,21 @@ describe("Feature 9: Streaming Integration", () => {
     // contextPercent should still reflect the API's contextUsagePercentage,
     // not be derived from the (overwritten) input token count
     expect((msg.usage as unknown as Record<string, unknown>).contextPercent).toBe(10);
+    expect((msg as KiroAssistantMessage).contextUsagePercentage).toBe(10);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("scales the context percentage by the answering model's context window", async () => {
+    const mockFetch = mockFetchOk('{"content":"Hi"}{"contextUsagePercentage":12.5}');
+    vi.stubGlobal("fetch", mockFetch);
+
+    const events = await collect(streamKiro(makeModel({ contextWindow: 1_000_000 }), makeContext(), { apiKey: "tok" }));
+    const done = events.find((e) => e.type === "done");
+    const msg = done?.type === "done" ? (done.message as KiroAssistantMessage) : undefined;
+
+    expect(msg?.contextUsagePercentage).toBe(12.5);
+    expect(msg?.usage.input).toBe(125_000);
 
     vi.unstubAllGlobals();
   });
@@ -2281,8 +2838,11 @@ describe("Feature 9: Streaming Integration", () => {
     if (!msg) throw new Error("Expected a completed assistant message");
 
     expect((msg.usage as unknown as Record<string, unknown>).contextPercent).toBe(42);
+    expect((msg as KiroAssistantMessage).contextUsagePercentage).toBe(42);
     // input should be back-calculated from percentage
     expect(msg.usage.input).toBe(Math.round(0.42 * 200000));
+    // and published through totalTokens, which pi's footer and auto-compaction read
+    expect(msg.usage.totalTokens).toBe(msg.usage.input + msg.usage.output);
 
     vi.unstubAllGlobals();
   });
@@ -2355,7 +2915,8 @@ describe("Feature 9: Streaming Integration", () => {
     );
     vi.stubGlobal("fetch", mockFetch);
 
-    const stream = streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" });
+    const context = { ...makeContext(), tools: [bashTool] };
+    const stream = streamKiro(makeModel({ reasoning: false }), context, { apiKey: "tok" });
     const events = await collect(stream);
 
     const done = events.find((e) => e.type === "done");
@@ -2375,6 +2936,61 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 
+  it("extracts XML function-call markup for declared tools only", async () => {
+    const markup =
+      '<function_calls><invoke name=\\"bash\\"><parameter name=\\"cmd\\">ls -la</parameter></invoke></function_calls>';
+    const undeclared =
+      '<function_calls><invoke name=\\"deploy\\"><parameter name=\\"env\\">prod</parameter></invoke></function_calls>';
+    const mockFetch = mockFetchOk(`{"content":"Checking.\\n${markup}\\n${undeclared}"}{"contextUsagePercentage":10}`);
+    vi.stubGlobal("fetch", mockFetch);
+
+    try {
+      const context = { ...makeContext(), tools: [bashTool] };
+      const events = await collect(streamKiro(makeModel({ reasoning: false }), context, { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      const msg = done?.type === "done" ? done.message : undefined;
+      expect(msg?.content.filter((b) => b.type === "toolCall")).toEqual([
+        expect.objectContaining({ name: "bash", arguments: { cmd: "ls -la" } }),
+      ]);
+      // Text after the call comes after it, in a block of its own
+      expect(msg?.content.map((b) => b.type)).toEqual(["text", "toolCall", "text"]);
+      expect(msg?.content.filter((b) => b.type === "text").map((b) => b.type === "text" && b.text)).toEqual([
+        "Checking.\n",
+        `\n${undeclared.replaceAll("\\", "")}`,
+      ]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("emits text tool calls live, between the text around them", async () => {
+    const mockFetch = mockFetchOk(
+      '{"content":"Looking. [Called bash with"}{"content":" args: {\\"cmd\\":\\"ls\\"}]"}{"content":" Then [Call"}{"content":"ing it done."}{"contextUsagePercentage":10}',
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    try {
+      const context = { ...makeContext(), tools: [bashTool] };
+      const events = await collect(streamKiro(makeModel({ reasoning: false }), context, { apiKey: "tok" }));
+
+      const flow = events
+        .filter((e) => ["text_delta", "toolcall_start", "toolcall_end"].includes(e.type))
+        .map((e) => (e.type === "text_delta" ? e.delta : e.type));
+      expect(flow).toEqual(["Looking. ", "toolcall_start", "toolcall_end", " Then ", "[Calling it done."]);
+      const done = events.find((e) => e.type === "done");
+      const msg = done?.type === "done" ? done.message : undefined;
+      expect(done?.type === "done" && done.reason).toBe("toolUse");
+      expect(msg?.content).toMatchObject([
+        { type: "text", text: "Looking. " },
+        { type: "toolCall", name: "bash", arguments: { cmd: "ls" } },
+        { type: "text", text: " Then [Calling it done." },
+      ]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   it("does not use bracket parsing when native tool calls exist", async () => {
     const toolPayload = '{"name":"bash","toolUseId":"tc1","input":"{\\"cmd\\":\\"ls\\"}","stop":true}';
     const mockFetch = mockFetchOk(
@@ -2840,3 +3456,140 @@ describe("Feature 9: Streaming Integration", () => {
     vi.unstubAllGlobals();
   });
 });
+
+describe("Dry run", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the rendered request without calling the network", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+
+    const events = await collect(streamKiro(makeModel(), makeContext("Hi there"), { kiroDryRun: true } as never));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const done = events.find((e) => e.type === "done");
+    const message = (done?.type === "done" ? done.message : undefined) as KiroAssistantMessage | undefined;
+    const dryRun = message?.kiroDryRun;
+    expect(dryRun?.request.conversationState.currentMessage.userInputMessage.content).toContain("Hi there");
+    expect(dryRun?.estimatedTokens.total).toBeGreaterThan(0);
+    const text = message?.content[0];
+    expect(text?.type === "text" && JSON.parse(text.text)).toEqual(dryRun);
+  });
+
+  it("is enabled by KIRO_DRY_RUN=1 and needs no credentials", async () => {
+    vi.stubEnv("KIRO_DRY_RUN", "1");
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+
+    const events = await collect(streamKiro(makeModel(), makeContext(), {}));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(events.map((e) => e.type)).toEqual(["start", "text_start", "text_delta", "text_end", "done"]);
+  });
+});
+
+describe("Recorded stream replay", () => {
+  beforeEach(() => {
+    resetProfileArnCache(true);
+    resetKiroReplay();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("records the request payload and raw event-stream bytes for each turn", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "kiro-record-"));
+    const simulator = new KiroSimulator().enqueue({ ...streamTurn(frames.text("recorded")), chunkSize: 5 });
+    vi.stubGlobal("fetch", simulator.fetch);
+    vi.stubEnv("KIRO_RECORD_DIR", dir);
+
+    await collect(streamKiro(makeModel({ reasoning: false }), makeContext("Record me"), { apiKey: "tok" }));
+
+    expect(readdirSync(dir).sort()).toEqual(["0001.eventstream", "0001.json"]);
+    const fixture = JSON.parse(readFileSync(join(dir, "0001.json"), "utf-8"));
+    expect(fixture.request.conversationState.currentMessage.userInputMessage.content).toContain("Record me");
+    expect(fixture.request.profileArn).toBe("<redacted-profile-arn>");
+    expect(fixture.response.status).toBe(200);
+    expect(readFileSync(join(dir, "0001.eventstream")).length).toBeGreaterThan(0);
+  });
+
+  it("replays a recorded exchange into the same assistant message without network access", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "kiro-record-"));
+    const simulator = new KiroSimulator().enqueue(
+      streamTurn(frames.text("Listing files."), frames.toolUse("bash", { cmd: "ls" }, "tool-1")),
+    );
+    vi.stubGlobal("fetch", simulator.fetch);
+    vi.stubEnv("KIRO_RECORD_DIR", dir);
+    const recorded = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    const networkFetch = vi.fn();
+    vi.stubGlobal("fetch", networkFetch);
+    vi.stubEnv("KIRO_RECORD_DIR", "");
+    vi.stubEnv("KIRO_REPLAY_DIR", dir);
+    const replayed = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    expect(networkFetch).not.toHaveBeenCalled();
+    const recordedDone = recorded.find((e) => e.type === "done");
+    const replayedDone = replayed.find((e) => e.type === "done");
+    expect(replayedDone?.type === "done" && replayedDone.message.content).toEqual(
+      recordedDone?.type === "done" && recordedDone.message.content,
+    );
+    expect(replayed.map((e) => e.type)).toEqual(recorded.map((e) => e.type));
+  });
+
+  it("replays a recorded error response with its request id", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "kiro-record-"));
+    const simulator = new KiroSimulator().enqueue(httpError(400, '{"message":"Unknown model."}', "Bad Request"));
+    vi.stubGlobal("fetch", simulator.fetch);
+    vi.stubEnv("KIRO_RECORD_DIR", dir);
+    const recorded = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    vi.stubGlobal("fetch", vi.fn());
+    vi.stubEnv("KIRO_RECORD_DIR", "");
+    vi.stubEnv("KIRO_REPLAY_DIR", dir);
+    const replayed = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+    const fixture = JSON.parse(readFileSync(join(dir, "0001.json"), "utf-8"));
+    expect(fixture.response.headers["x-amzn-requestid"]).toBe("sim-request-1");
+    const recordedError = recorded.find((e) => e.type === "error");
+    const replayedError = replayed.find((e) => e.type === "error");
+    expect(recordedError?.type === "error" && (recordedError.error as KiroAssistantMessage).kiroError?.requestId).toBe(
+      "sim-request-1",
+    );
+    expect(replayedError?.type === "error" && (replayedError.error as KiroAssistantMessage).kiroError?.requestId).toBe(
+      "sim-request-1",
+    );
+  });
+
+  it("fails clearly when replay fixtures run out", async () => {
+    vi.stubEnv("KIRO_REPLAY_DIR", mkdtempSync(join(tmpdir(), "kiro-replay-empty-")));
+
+    const events = await collect(streamKiro(makeModel(), makeContext(), { apiKey: "tok" }));
+
+    const error = events.find((e) => e.type === "error");
+    expect(error?.type === "error" && error.error.errorMessage).toContain("replay fixtures exhausted");
+  });
+
+  it("regression: drops a tool call whose streamed input JSON was truncated", async () => {
+    vi.stubEnv("KIRO_REPLAY_DIR", join(REPLAY_FIXTURES, "truncated-tool-json"));
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const events = await collect(streamKiro(makeModel({ reasoning: false }), makeContext(), { apiKey: "tok" }));
+
+      const done = events.find((e) => e.type === "done");
+      expect(done?.type === "done" && done.message.stopReason).toBe("stop");
+      expect(done?.type === "done" && done.message.content).toEqual([
+        { type: "text", text: "Writing the config now." },
+      ]);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("tooluse_truncated"));
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import type { Api, Context, Model } from "@earendil-works/pi-ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { truncateHistory } from "../src/history.js";
+import type { KiroRequest } from "../src/request.js";
+import {
+  DEFAULT_SUMMARY_MODEL,
+  historySummariesEnabled,
+  resetSummaryCache,
+  type SummaryCompletion,
+  summarizeOmittedHistory,
+  summaryConfig,
+} from "../src/summary.js";
+import type { KiroHistoryEntry } from "../src/transform.js";
+
+const model = {
+  id: "claude-sonnet-4-5",
+  baseUrl: "https://runtime.eu-central-1.kiro.dev/",
+  kiroRegion: "eu-central-1",
+  kiroProfileArn: "arn:profile",
+} as unknown as Model<Api>;
+
+const turns = (count: number): KiroHistoryEntry[] =>
+  Array.from({ length: count }, (_, i) => [
+    { userInputMessage: { content: `turn ${i} ${"lorem ipsum ".repeat(100)}`, modelId: "M", origin: "KIRO_CLI" } },
+    { assistantResponseMessage: { content: `reply ${i} ${"dolor sit ".repeat(100)}` } },
+  ]).flat() as KiroHistoryEntry[];
+
+const request = (history: KiroHistoryEntry[]): KiroRequest => ({
+  conversationState: {
+    chatTriggerType: "MANUAL",
+    agentTaskType: "vibe",
+    conversationId: "session-1",
+    currentMessage: { userInputMessage: { content: "latest", modelId: "M", origin: "KIRO_CLI" } },
+    history,
+  },
+  profileArn: "arn:profile",
+});
+
+const promptOf = (complete: ReturnType<typeof vi.fn>, call: number) =>
+  (complete.mock.calls[call][1] as Context).messages[0].content as string;
+
+describe("summarizeOmittedHistory", () => {
+  let complete: ReturnType<typeof vi.fn> & SummaryCompletion;
+
+  beforeEach(() => {
+    complete = vi.fn(async () => "The user is refactoring the parser.") as typeof complete;
+  });
+
+  afterEach(() => {
+    resetSummaryCache();
+    summaryConfig.enabled = false;
+    summaryConfig.modelId = DEFAULT_SUMMARY_MODEL;
+    delete process.env.KIRO_SUMMARIZE_HISTORY;
+  });
+
+  it("replaces the omission marker with a summary from the summary model", async () => {
+    const req = request(truncateHistory(turns(10), 1_500));
+
+    await summarizeOmittedHistory(req, model, complete);
+
+    const [summaryModel, context] = complete.mock.calls[0] as [Model<Api> & Record<string, unknown>, Context];
+    expect(summaryModel).toMatchObject({
+      id: DEFAULT_SUMMARY_MODEL,
+      baseUrl: model.baseUrl,
+      kiroRegion: "eu-central-1",
+      kiroProfileArn: "arn:profile",
+    });
+    expect(context.systemPrompt).toContain("summarize");
+    expect(promptOf(complete, 0)).toContain("User: turn 1");
+    expect(promptOf(complete, 0)).not.toContain("turn 0");
+    const marker = req.conversationState.history?.[1].assistantResponseMessage?.content;
+    expect(marker).toMatch(/^\[Summary of \d+ earlier turns\]\nThe user is refactoring the parser\.$/);
+  });
+
+  it("reuses the cached summary while the dropped span is unchanged", async () => {
+    const h = turns(10);
+
+    await summarizeOmittedHistory(request(truncateHistory(h, 1_500)), model, complete);
+    const again = request(truncateHistory(h, 1_500));
+    await summarizeOmittedHistory(again, model, complete);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(again.conversationState.history?.[1].assistantResponseMessage?.content).toContain("refactoring");
+  });
+
+  it("extends the previous summary with only the newly dropped turns", async () => {
+    const h = turns(12);
+    await summarizeOmittedHistory(request(truncateHistory(h.slice(0, 20), 1_500)), model, complete);
+
+    await summarizeOmittedHistory(request(truncateHistory(h, 1_500)), model, complete);
+
+    const prompt = promptOf(complete, 1);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(prompt).toMatch(/^Summary so far:\nThe user is refactoring the parser\.\n\nWhat happened next:\n/);
+    expect(prompt).not.toContain("User: turn 1 ");
+  });
+
+  it("keeps the plain marker when summarizing fails", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    complete.mockRejectedValueOnce(new Error("capacity"));
+    const req = request(truncateHistory(turns(10), 1_500));
+
+    await summarizeOmittedHistory(req, model, complete);
+
+    expect(req.conversationState.history?.[1].assistantResponseMessage?.content).toMatch(/earlier turns omitted\]$/);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("capacity"));
+    warn.mockRestore();
+  });
+
+  it("keeps the plain marker when the summary would not fit the context window", async () => {
+    complete.mockResolvedValueOnce("word ".repeat(2_000));
+    const req = request(truncateHistory(turns(10), 1_500));
+
+    await summarizeOmittedHistory(req, model, complete, 2_000);
+
+    expect(req.conversationState.history?.[1].assistantResponseMessage?.content).toMatch(/earlier turns omitted\]$/);
+  });
+
+  it("does nothing when the summary model is unknown or nothing was dropped", async () => {
+    summaryConfig.modelId = "no-such-model";
+    const req = request(truncateHistory(turns(10), 1_500));
+
+    await summarizeOmittedHistory(req, model, complete);
+    await summarizeOmittedHistory(request(turns(2)), model, complete);
+
+    expect(complete).not.toHaveBeenCalled();
+    expect(req.conversationState.history?.[1].assistantResponseMessage?.content).toMatch(/omitted\]$/);
+  });
+
+  it("is enabled by settings or KIRO_SUMMARIZE_HISTORY=1", () => {
+    expect(historySummariesEnabled()).toBe(false);
+    process.env.KIRO_SUMMARIZE_HISTORY = "1";
+    expect(historySummariesEnabled()).toBe(true);
+    delete process.env.KIRO_SUMMARIZE_HISTORY;
+    summaryConfig.enabled = true;
+    expect(historySummariesEnabled()).toBe(true);
+  });
+});
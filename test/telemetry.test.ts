@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { emitKiroMetrics, KiroMetricsRecorder, registerKiroMetricsSink } from "../src/telemetry.js";
+
+describe("Kiro request telemetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("measures latencies from the start of the final attempt and throughput from the first token", () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const recorder = new KiroMetricsRecorder("claude-sonnet-4-5");
+    recorder.region = "us-east-1";
+
+    recorder.startAttempt();
+    vi.advanceTimersByTime(5_000);
+    recorder.recordRetry("capacity");
+    recorder.startAttempt();
+    vi.advanceTimersByTime(200);
+    recorder.markHeaders();
+    vi.advanceTimersByTime(300);
+    recorder.markFirstThinking();
+    vi.advanceTimersByTime(500);
+    recorder.markFirstToken();
+    vi.advanceTimersByTime(2_000);
+
+    const metrics = recorder.finish("stop", 100);
+
+    expect(metrics).toMatchObject({
+      model: "claude-sonnet-4-5",
+      kind: "turn",
+      region: "us-east-1",
+      startedAt: 1_000,
+      attempts: 2,
+      timeToHeadersMs: 200,
+      timeToFirstThinkingMs: 500,
+      timeToFirstTokenMs: 1_000,
+      outputTokens: 100,
+      tokensPerSecond: 50,
+      totalMs: 8_000,
+      outcome: "stop",
+    });
+    expect(metrics.retries.capacity).toBe(1);
+    expect(metrics.retries.forbidden).toBe(0);
+  });
+
+  it("spreads throughput over the streaming time of a resumed attempt and the one that finished it", () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const recorder = new KiroMetricsRecorder("m");
+
+    recorder.startAttempt();
+    recorder.markFirstToken();
+    vi.advanceTimersByTime(1_000);
+    recorder.keepStreamingTime();
+    vi.advanceTimersByTime(4_000);
+    recorder.startAttempt();
+    vi.advanceTimersByTime(500);
+    recorder.markFirstToken();
+    vi.advanceTimersByTime(1_000);
+
+    expect(recorder.finish("stop", 100).tokensPerSecond).toBe(50);
+  });
+
+  it("leaves the streaming time of a discarded attempt out of throughput", () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const recorder = new KiroMetricsRecorder("m");
+
+    recorder.startAttempt();
+    recorder.markFirstToken();
+    vi.advanceTimersByTime(3_000);
+    recorder.startAttempt();
+    recorder.markFirstToken();
+    vi.advanceTimersByTime(2_000);
+
+    expect(recorder.finish("stop", 100).tokensPerSecond).toBe(50);
+  });
+
+  it("tags side requests apart from the user's turns", () => {
+    expect(new KiroMetricsRecorder("m", "side").finish("stop", 0).kind).toBe("side");
+  });
+
+  it("omits throughput when no token ever arrived", () => {
+    const recorder = new KiroMetricsRecorder("m");
+    recorder.startAttempt();
+
+    const metrics = recorder.finish("error", 0);
+
+    expect(metrics.timeToFirstTokenMs).toBeUndefined();
+    expect(metrics.tokensPerSecond).toBeUndefined();
+  });
+
+  it("isolates failing sinks and supports unregistering", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const received: string[] = [];
+    const unregisterBroken = registerKiroMetricsSink(() => {
+      throw new Error("sink down");
+    });
+    const unregister = registerKiroMetricsSink((m) => received.push(m.model));
+
+    try {
+      emitKiroMetrics(new KiroMetricsRecorder("a").finish("stop", 0));
+      unregister();
+      emitKiroMetrics(new KiroMetricsRecorder("b").finish("stop", 0));
+
+      expect(received).toEqual(["a"]);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("sink down"));
+    } finally {
+      unregisterBroken();
+      warnSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,218 @@
+import type { Tool } from "@earendil-works/pi-ai";
+import { describe, expect, it } from "vitest";
+import {
+  extractTextToolCalls,
+  type TextToolCall,
+  type TextToolCallGrammar,
+  TextToolCallStream,
+  textToolCallGrammars,
+} from "../src/text-tool-calls.js";
+
+const tools = [
+  {
+    name: "bash",
+    description: "Run a command",
+    parameters: {
+      type: "object",
+      properties: { cmd: { type: "string" }, timeout: { type: "number" } },
+      required: ["cmd"],
+    },
+  },
+  {
+    name: "edit",
+    description: "Edit a file",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string" }, edits: { type: "array" } },
+      required: ["path", "edits"],
+    },
+  },
+] as unknown as Tool[];
+
+const calls = (text: string) =>
+  extractTextToolCalls(text, tools).toolCalls.map(({ name, arguments: args, grammar }) => ({ name, args, grammar }));
+
+describe("extractTextToolCalls", () => {
+  it("reads bracket calls", () => {
+    const result = extractTextToolCalls('Running it. [Called bash with args: {"cmd": "ls"}]', tools);
+
+    expect(result.toolCalls).toMatchObject([{ name: "bash", arguments: { cmd: "ls" }, grammar: "bracket" }]);
+    expect(result.cleanedText).toBe("Running it. ");
+  });
+
+  it("reads XML function-call markup, typing parameters from the schema", () => {
+    const text = [
+      "Let me check.",
+      "<function_calls>",
+      '<invoke name="bash"><parameter name="cmd">ls -la</parameter><parameter name="timeout">30</parameter></invoke>',
+      '<invoke name="edit"><parameter name="path">a.ts</parameter><parameter name="edits">[{"old":"a","new":"b"}]</parameter></invoke>',
+      "</function_calls>",
+    ].join("\n");
+
+    const result = extractTextToolCalls(text, tools);
+
+    expect(calls(text)).toEqual([
+      { name: "bash", args: { cmd: "ls -la", timeout: 30 }, grammar: "xml" },
+      { name: "edit", args: { path: "a.ts", edits: [{ old: "a", new: "b" }] }, grammar: "xml" },
+    ]);
+    expect(result.cleanedText).toBe("Let me check.\n");
+  });
+
+  it("accepts namespaced XML tags", () => {
+    const text =
+      '<x:function_calls><x:invoke name="bash"><x:parameter name="cmd">pwd</x:parameter></x:invoke></x:function_calls>';
+
+    expect(calls(text)).toEqual([{ name: "bash", args: { cmd: "pwd" }, grammar: "xml" }]);
+  });
+
+  it("reads a standalone JSON call", () => {
+    const plain = 'I will list the files.\n{"name": "bash", "parameters": {"cmd": "ls"}}\nDone.';
+
+    expect(calls(plain)).toEqual([{ name: "bash", args: { cmd: "ls" }, grammar: "json" }]);
+    expect(extractTextToolCalls(plain, tools).cleanedText).toBe("I will list the files.\n\nDone.");
+  });
+
+  it("never runs a JSON example written in a code fence", () => {
+    const block = 'The format looks like this:\n```json\n{"tool": "bash", "arguments": {"cmd": "rm -rf build"}}\n```';
+    const inline = 'The format looks like this example: ```json {"tool":"bash","arguments":{"cmd":"rm -rf build"}} ```';
+
+    for (const text of [block, inline]) {
+      expect(extractTextToolCalls(text, tools)).toEqual({ toolCalls: [], cleanedText: text });
+    }
+  });
+
+  it("leaves JSON written inline in prose alone", () => {
+    expect(calls('Call it like {"tool": "bash", "arguments": {"cmd": "ls"}} when needed.')).toEqual([]);
+  });
+
+  it("ignores calls to undeclared tools and arguments that fail the schema", () => {
+    const text = [
+      '[Called deploy with args: {"env": "prod"}]',
+      '[Called bash with args: {"timeout": 5}]',
+      '[Called edit with args: {"path": "a.ts", "edits": "not a list"}]',
+    ].join("\n");
+
+    const result = extractTextToolCalls(text, tools);
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.cleanedText).toBe(text);
+  });
+
+  it("extracts nothing when no tools are declared", () => {
+    expect(extractTextToolCalls('[Called bash with args: {"cmd": "ls"}]', undefined).toolCalls).toEqual([]);
+    expect(extractTextToolCalls('[Called bash with args: {"cmd": "ls"}]', []).toolCalls).toEqual([]);
+  });
+
+  it("lowers confidence for examples in code fences and for undeclared arguments", () => {
+    const fenced = 'For example:\n```\n[Called bash with args: {"cmd": "ls"}]\n```';
+    const extra = '{"tool": "bash", "arguments": {"cmd": "ls", "verbose": true}}';
+
+    expect(calls(fenced)).toEqual([]);
+    expect(calls(extra)).toEqual([]);
+    const [bracket] = extractTextToolCalls('[Called bash with args: {"cmd": "ls", "verbose": true}]', tools).toolCalls;
+    expect(bracket.confidence).toBeCloseTo(0.63);
+  });
+
+  it("takes extra grammars and keeps the most confident reading of a span", () => {
+    const shout: TextToolCallGrammar = {
+      name: "shout",
+      find: (text) => {
+        const match = /RUN (.+)/.exec(text);
+        return match
+          ? [{ name: "bash", arguments: { cmd: match[1] }, start: match.index, end: text.length, confidence: 0.6 }]
+          : [];
+      },
+    };
+    const text = 'RUN [Called bash with args: {"cmd": "ls"}]';
+
+    expect(extractTextToolCalls(text, tools, [shout]).toolCalls).toMatchObject([{ grammar: "shout" }]);
+    expect(calls(text)).toEqual([{ name: "bash", args: { cmd: "ls" }, grammar: "bracket" }]);
+    expect(extractTextToolCalls(text, tools, [shout, ...textToolCallGrammars]).toolCalls).toMatchObject([
+      { grammar: "bracket" },
+    ]);
+  });
+});
+
+describe("TextToolCallStream", () => {
+  /** Feed `chunks` through a detector, recording what was shown after each and the calls found. */
+  function feed(chunks: string[], declared: Tool[] = tools) {
+    const found: TextToolCall[] = [];
+    const shown: string[] = [];
+    let text = "";
+    const detector = new TextToolCallStream(declared, (call) => {
+      found.push(call);
+      text += "|";
+    });
+    const emit = (visible: string) => {
+      text += visible;
+    };
+    for (const chunk of chunks) {
+      detector.push(chunk, emit);
+      shown.push(text);
+    }
+    detector.flush(emit);
+    return { text, shown, calls: found.map(({ name, arguments: args, grammar }) => ({ name, args, grammar })) };
+  }
+
+  it("holds back a bracket call split across chunks and reports it once complete", () => {
+    const result = feed(["Running [Cal", 'led bash with args: {"cmd":', ' "ls"}] now', "."]);
+
+    expect(result.shown).toEqual(["Running ", "Running ", "Running | now", "Running | now."]);
+    expect(result.calls).toEqual([{ name: "bash", args: { cmd: "ls" }, grammar: "bracket" }]);
+  });
+
+  it("lets go of held text as soon as it cannot become a call", () => {
+    const result = feed(["a < b and [Call", "ed it a day]", " {x}"]);
+
+    expect(result.shown).toEqual(["a < b and ", "a < b and [Called it a day]", "a < b and [Called it a day] {x}"]);
+    expect(result.calls).toEqual([]);
+  });
+
+  it("reads XML blocks with several invokes as they close", () => {
+    const result = feed([
+      "Checking.\n<function_ca",
+      'lls><invoke name="bash"><parameter name="cmd">ls</parameter></invoke>',
+      '<invoke name="bash"><parameter name="cmd">pwd</parameter></invoke></function_calls>',
+    ]);
+
+    expect(result.shown).toEqual(["Checking.\n", "Checking.\n", "Checking.\n||"]);
+    expect(result.calls).toEqual([
+      { name: "bash", args: { cmd: "ls" }, grammar: "xml" },
+      { name: "bash", args: { cmd: "pwd" }, grammar: "xml" },
+    ]);
+  });
+
+  it("reads JSON calls on a line of their own, waiting for the line to end", () => {
+    const call = '{"tool": "bash", "arguments": {"cmd": "ls"}}';
+
+    const standalone = feed(["Ok.\n", call, "\nDone", `\n${call}`]);
+    expect(standalone.shown).toEqual(["Ok.\n", "Ok.\n", "Ok.\n|\nDone", "Ok.\n|\nDone\n"]);
+    expect(standalone.text).toBe("Ok.\n|\nDone\n|");
+    expect(feed([`Like ${call} here`]).calls).toEqual([]);
+    expect(feed([`${call} is an example`]).text).toBe(`${call} is an example`);
+  });
+
+  it("shows complete calls the declared tools reject, and passes text through with no tools", () => {
+    const undeclared = '[Called deploy with args: {"env": "prod"}]';
+
+    expect(feed([undeclared, " ok"])).toMatchObject({ text: `${undeclared} ok`, calls: [] });
+    expect(feed(['[Called bash with args: {"cmd"'], []).shown).toEqual(['[Called bash with args: {"cmd"']);
+  });
+
+  it("passes examples in code fences straight through", () => {
+    const chunks = [
+      "Like this:\n``",
+      '`\n[Called bash with args: {"cmd": "ls"}]\n',
+      "```\n",
+      '[Called bash with args: {"cmd": "pwd"}]',
+    ];
+
+    const result = feed(chunks);
+    expect(result.shown[1]).toBe('Like this:\n```\n[Called bash with args: {"cmd": "ls"}]\n');
+    expect(result.calls).toEqual([{ name: "bash", args: { cmd: "pwd" }, grammar: "bracket" }]);
+  });
+
+  it("shows an unfinished call as text when the run of text ends", () => {
+    expect(feed(['Try [Called bash with args: {"cmd": "l']).text).toBe('Try [Called bash with args: {"cmd": "l');
+  });
+});
@@ -1,6 +1,7 @@
-import type { AssistantMessage, AssistantMessageEvent } from "@earendil-works/pi-ai";
+import type { AssistantMessage, AssistantMessageEvent, Tool } from "@earendil-works/pi-ai";
 import { createAssistantMessageEventStream } from "@earendil-works/pi-ai";
 import { describe, expect, it } from "vitest";
+import { TextToolCallStream } from "../src/text-tool-calls.js";
 import { ThinkingTagParser } from "../src/thinking-parser.js";
 
 function makeOutput(): AssistantMessage {
@@ -229,4 +230,138 @@ describe("Feature 7: Thinking Tag Parser", () => {
     expect((output.content[0] as { thinking: string }).thinking).toBe("Let me think about this");
     expect((output.content[1] as { text: string }).text).toBe("Hey! What can I help with?");
   });
+
+  // =========================================================================
+  // Interleaved thinking segments
+  // =========================================================================
+
+  it("gives each later thinking segment its own block, in order", async () => {
+    const output = makeOutput();
+    const stream = createAssistantMessageEventStream();
+    const parser = new ThinkingTagParser(output, stream);
+
+    parser.processChunk("<thinking>plan</thinking>\n\nReading the file.");
+    parser.processChunk("<thinking>it exports a</thinking>\n\nIt exports a.");
+    parser.processChunk("<thinking>done?</thinking>\n\nDone.");
+    parser.finalize();
+    stream.end();
+    const events: AssistantMessageEvent[] = [];
+    for await (const e of stream) events.push(e);
+
+    expect(output.content).toEqual([
+      { type: "thinking", thinking: "plan" },
+      { type: "text", text: "Reading the file." },
+      { type: "thinking", thinking: "it exports a" },
+      { type: "text", text: "It exports a." },
+      { type: "thinking", thinking: "done?" },
+      { type: "text", text: "Done." },
+    ]);
+    const boundaries = events
+      .filter((e) => e.type.endsWith("_start") || e.type.endsWith("_end"))
+      .map((e) => `${e.type}:${(e as { contentIndex: number }).contentIndex}`);
+    expect(boundaries).toEqual([
+      "thinking_start:0",
+      "thinking_end:0",
+      "text_start:1",
+      "thinking_start:2",
+      "thinking_end:2",
+      "text_end:1",
+      "text_start:3",
+      "thinking_start:4",
+      "thinking_end:4",
+      "text_end:3",
+      "text_start:5",
+    ]);
+    expect(parser.getTextBlockIndex()).toBe(5);
+  });
+
+  it("keeps buffering tag prefixes after the first segment", () => {
+    const output = makeOutput();
+    const stream = createAssistantMessageEventStream();
+    const parser = new ThinkingTagParser(output, stream);
+
+    parser.processChunk("<thinking>a</thinking>\n\nText <thi");
+    expect(output.content[1]).toEqual({ type: "text", text: "Text " });
+
+    parser.processChunk("nking>b</thin");
+    parser.processChunk("king>More");
+    parser.finalize();
+
+    expect(output.content.map((b) => (b.type === "text" ? b.text : b.type === "thinking" ? b.thinking : ""))).toEqual([
+      "a",
+      "Text ",
+      "b",
+      "More",
+    ]);
+  });
+
+  it("keeps tags an answer mentions as text after the first segment", () => {
+    const output = makeOutput();
+    const stream = createAssistantMessageEventStream();
+    const parser = new ThinkingTagParser(output, stream);
+
+    parser.processChunk("<thinking>plan</thinking>\n\nWrap the tag as `<reasoning>` in your XML schema.");
+    parser.processChunk(" Models may write <think>, <thought> or `<thin");
+    parser.processChunk("king>` too.\n```xml\n<thinking>example</thinking>\n```\nMore answer text here.");
+    parser.finalize();
+
+    expect(output.content).toEqual([
+      { type: "thinking", thinking: "plan" },
+      {
+        type: "text",
+        text: [
+          "Wrap the tag as `<reasoning>` in your XML schema. Models may write <think>, <thought> or `<thinking>` too.",
+          "```xml",
+          "<thinking>example</thinking>",
+          "```",
+          "More answer text here.",
+        ].join("\n"),
+      },
+    ]);
+  });
+
+  it("ends an unterminated thinking segment on finalize", async () => {
+    const events = await run(["<thinking>a</thinking>\n\nText", "<thinking>cut off"]);
+
+    const ends = events.filter((e) => e.type === "thinking_end");
+    expect(ends.map((e) => (e as { content: string }).content)).toEqual(["a", "cut off"]);
+    expect(deltas(events, "text_delta")).toBe("Text");
+  });
+
+  it("opens a new text block when text resumes after a tool call", () => {
+    const output = makeOutput();
+    const stream = createAssistantMessageEventStream();
+    const parser = new ThinkingTagParser(output, stream);
+
+    parser.processChunk("Listing.");
+    output.content.push({ type: "toolCall", id: "tc1", name: "bash", arguments: {} });
+    parser.processChunk("Reading.");
+    parser.finalize();
+
+    expect(output.content.map((b) => b.type)).toEqual(["text", "toolCall", "text"]);
+    expect(output.content[2]).toEqual({ type: "text", text: "Reading." });
+    expect(parser.getTextBlockIndex()).toBe(2);
+  });
+
+  it("passes visible text through the text tool call detector, releasing held text before thinking", () => {
+    const output = makeOutput();
+    const stream = createAssistantMessageEventStream();
+    const parser = new ThinkingTagParser(output, stream);
+    const tools = [
+      { name: "bash", description: "", parameters: { type: "object", properties: {} } },
+    ] as unknown as Tool[];
+    const found: string[] = [];
+    parser.setTextToolCalls(new TextToolCallStream(tools, (call) => found.push(call.name)));
+
+    parser.processChunk("See [Called");
+    expect(output.content).toEqual([{ type: "text", text: "See " }]);
+    parser.processChunk("<thinking>hmm</thinking>[Called bash with args: {}]");
+    parser.finalize();
+
+    expect(found).toEqual(["bash"]);
+    expect(output.content).toEqual([
+      { type: "thinking", thinking: "hmm" },
+      { type: "text", text: "See [Called" },
+    ]);
+  });
 });
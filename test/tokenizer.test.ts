@@ -2,7 +2,7 @@
 // ABOUTME: Validates countTokens returns accurate counts for known strings.
 
 import { describe, expect, it } from "vitest";
-import { countTokens } from "../src/tokenizer.js";
+import { countTokens, countTokensCached } from "../src/tokenizer.js";
 
 describe("countTokens", () => {
   it("returns 0 for empty string", () => {
@@ -38,3 +38,19 @@ describe("countTokens", () => {
     expect(count).toBeLessThan(2000);
   });
 });
+
+describe("countTokensCached", () => {
+  it("matches countTokens", () => {
+    const text = "function add(a, b) {\n  return a + b;\n}";
+    expect(countTokensCached(text)).toBe(countTokens(text));
+    expect(countTokensCached(text)).toBe(countTokens(text));
+    expect(countTokensCached("")).toBe(0);
+  });
+});
+
+describe("countTokens on long unbroken runs", () => {
+  it("counts them in slices instead of one quadratic merge", () => {
+    const slice = "x".repeat(64);
+    expect(countTokens(slice.repeat(1_000))).toBe(1_000 * countTokens(slice));
+  });
+});
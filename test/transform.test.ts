@@ -1,13 +1,16 @@
 import type { AssistantMessage, Message, Tool, ToolResultMessage, UserMessage } from "@earendil-works/pi-ai";
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
+import { isPinnedEntry } from "../src/history.js";
 import {
   buildHistory,
+  convertAssistantMessage,
   convertImagesToKiro,
   convertToolsToKiro,
   getContentText,
   normalizeMessages,
   sanitizeSurrogates,
   TOOL_RESULT_LIMIT,
+  thinkingHistoryConfig,
   truncate,
 } from "../src/transform.js";
 
@@ -128,6 +131,77 @@ describe("Feature 5: Message Transformation", () => {
     });
   });
 
+  describe("convertAssistantMessage", () => {
+    const target = { provider: "kiro", model: "test" };
+    const thoughtful = (thinking: AssistantMessage["content"][number]) =>
+      assistant("", {
+        content: [thinking, { type: "toolCall", id: "tc1", name: "bash", arguments: { cmd: "ls" } }],
+      });
+
+    afterEach(() => {
+      thinkingHistoryConfig.fallback = "text";
+    });
+
+    it("re-sends the model's own signed thinking as reasoning content, keeping the text fallback", () => {
+      const arm = convertAssistantMessage(
+        thoughtful({ type: "thinking", thinking: "List first.", thinkingSignature: "sig" }),
+        target,
+      );
+
+      expect(arm).toEqual({
+        content: "<thinking>List first.</thinking>\n\n",
+        toolUses: [{ name: "bash", toolUseId: "tc1", input: { cmd: "ls" } }],
+        reasoningContent: { reasoningText: { text: "List first.", signature: "sig" } },
+      });
+    });
+
+    it("re-sends the last of several signed blocks natively and all of them as text", () => {
+      const arm = convertAssistantMessage(
+        assistant("", {
+          content: [
+            { type: "thinking", thinking: "List first.", thinkingSignature: "sig1" },
+            { type: "toolCall", id: "tc1", name: "bash", arguments: { cmd: "ls" } },
+            { type: "thinking", thinking: "Then read.", thinkingSignature: "sig2" },
+            { type: "toolCall", id: "tc2", name: "bash", arguments: { cmd: "cat a" } },
+          ],
+        }),
+        target,
+      );
+
+      expect(arm?.reasoningContent).toEqual({ reasoningText: { text: "Then read.", signature: "sig2" } });
+      expect(arm?.content).toBe("<thinking>List first.</thinking>\n\n<thinking>Then read.</thinking>\n\n");
+    });
+
+    it("re-sends redacted thinking as its opaque payload", () => {
+      const arm = convertAssistantMessage(
+        thoughtful({ type: "thinking", thinking: "", thinkingSignature: "ZW5jcnlwdGVk", redacted: true }),
+        target,
+      );
+
+      expect(arm?.reasoningContent).toEqual({ redactedContent: "ZW5jcnlwdGVk" });
+    });
+
+    it("tags thinking from another model, or unsigned, as text", () => {
+      const signed = thoughtful({ type: "thinking", thinking: "List first.", thinkingSignature: "sig" });
+
+      expect(convertAssistantMessage(signed, { provider: "kiro", model: "other" })).toMatchObject({
+        content: "<thinking>List first.</thinking>\n\n",
+      });
+      expect(convertAssistantMessage(thoughtful({ type: "thinking", thinking: "Hm." }), target)).not.toHaveProperty(
+        "reasoningContent",
+      );
+    });
+
+    it("drops redacted thinking it cannot re-send, and all thinking under the drop policy", () => {
+      const redacted = thoughtful({ type: "thinking", thinking: "", thinkingSignature: "x", redacted: true });
+      expect(convertAssistantMessage(redacted, { provider: "kiro", model: "other" })?.content).toBe("");
+
+      thinkingHistoryConfig.fallback = "drop";
+      const arm = convertAssistantMessage(assistant("", { content: [{ type: "thinking", thinking: "Hm." }] }));
+      expect(arm).toBeUndefined();
+    });
+  });
+
   describe("buildHistory", () => {
     it("returns empty history for single user message", () => {
       const { history } = buildHistory([user("Hello")], "M");
@@ -141,6 +215,19 @@ describe("Feature 5: Message Transformation", () => {
       expect(history[0].userInputMessage?.content).toMatch(/^Be helpful/);
     });
 
+    it("pins entries for user messages marked pinned", () => {
+      const msgs: Message[] = [
+        user("task"),
+        assistant("ok"),
+        { ...user("remember this"), pinned: true } as Message,
+        assistant("noted"),
+        user("next"),
+      ];
+      const { history } = buildHistory(msgs, "M");
+      expect(history.map((h) => isPinnedEntry(h))).toEqual([false, false, true, false]);
+      expect(JSON.stringify(history)).not.toContain("pinned");
+    });
+
     it("converts assistant tool calls", () => {
       const a = assistant("");
       a.content = [{ type: "toolCall", id: "tc1", name: "bash", arguments: { cmd: "ls" } }];